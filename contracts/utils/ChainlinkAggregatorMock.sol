@@ -54,7 +54,11 @@ contract ChainlinkAggregatorMock is AggregatorV2V3Interface {
         returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
     {
         return (
-            uint80(latestRound), getAnswer[latestRound], getStartedAt[latestRound], block.timestamp, uint80(latestRound)
+            uint80(latestRound),
+            getAnswer[latestRound],
+            getStartedAt[latestRound],
+            getTimestamp[latestRound],
+            uint80(latestRound)
         );
     }
 
@@ -0,0 +1,88 @@
+import { Interface, Log } from "ethers";
+import * as hre from "hardhat";
+
+import { formatValue } from "../sdk/abi";
+
+export { formatValue };
+
+/**
+ * Contracts whose errors and events the scripts know how to decode
+ */
+export const PROTOCOL_CONTRACTS = [
+  "ClearingHouse",
+  "ClearingHouseViewer",
+  "Vault",
+  "Insurance",
+  "Oracle",
+  "UA",
+  "UAHelper",
+  "PerpMarketFactory",
+  "Perpetual",
+  "VBase",
+  "VQuote",
+  "OwnedMulticall3",
+  "PerpSettlement"
+];
+
+const interfaces: Record<string, Interface> = {};
+
+export const getInterface = async (contract: string) => {
+  if (!interfaces[contract]) {
+    const artifact = await hre.artifacts.readArtifact(contract);
+    interfaces[contract] = new Interface(artifact.abi);
+  }
+  return interfaces[contract];
+};
+
+const getProtocolInterfaces = () =>
+  Promise.all(
+    PROTOCOL_CONTRACTS.map(
+      async contract => [contract, await getInterface(contract)] as const
+    )
+  );
+
+/**
+ * Decodes revert data using the custom errors of the protocol contracts, as well as `Error(string)` and `Panic(uint256)`
+ */
+export const decodeRevertData = async (data: string) => {
+  if (!data || data === "0x") return "reverted without a reason";
+
+  for (const [, contractInterface] of await getProtocolInterfaces()) {
+    const error = contractInterface.parseError(data);
+    if (error)
+      return `${error.name}(${error.args
+        .toArray()
+        .map(arg => JSON.stringify(formatValue(arg)))
+        .join(", ")})`;
+  }
+
+  return `unknown error ${data}`;
+};
+
+export type DecodedEvent = {
+  address: string;
+  contract: string;
+  name: string;
+  args: Record<string, any>;
+};
+
+/**
+ * Decodes a log against the events of the protocol contracts, returns undefined if none matches
+ */
+export const decodeLog = async (
+  log: Log
+): Promise<DecodedEvent | undefined> => {
+  for (const [contract, contractInterface] of await getProtocolInterfaces()) {
+    const event = contractInterface.parseLog({
+      topics: [...log.topics],
+      data: log.data
+    });
+    if (event)
+      return {
+        address: log.address,
+        contract,
+        name: event.name,
+        args: formatValue(event.args)
+      };
+  }
+};
@@ -0,0 +1,375 @@
+import { BlockTag, Contract, Interface, Provider, Result } from "ethers";
+
+import { getInterface } from "./abi";
+import { getProtocolAddresses } from "./addresses";
+import { formatAmount, renderTable } from "./format";
+import {
+  MulticallRead,
+  getMulticall3Address,
+  multicallRead
+} from "./multicall";
+
+// Amounts are 18 decimals unless stated otherwise
+export type MarketRisk = {
+  idx: bigint;
+  perpetual: string;
+  trader: {
+    isOpen: boolean;
+    openNotional: bigint;
+    positionSize: bigint;
+    unrealizedPnl: bigint;
+  };
+  lp: {
+    isOpen: boolean;
+    openNotional: bigint;
+    positionSize: bigint;
+    liquidityBalance: bigint;
+    unrealizedPnl: bigint;
+    tradingFees: bigint;
+  };
+  /**
+   * Funding the account would receive (or pay if negative) by settling its trader and LP positions now
+   */
+  pendingFunding: bigint;
+  leverage: bigint;
+};
+
+export type CollateralBalance = {
+  tokenIdx: bigint;
+  asset: string;
+  symbol: string;
+  /**
+   * Normalized to 18 decimals by the Vault
+   */
+  balance: bigint;
+  weight: bigint;
+};
+
+export type AccountRisk = {
+  account: string;
+  block: number;
+  markets: MarketRisk[];
+  collaterals: CollateralBalance[];
+  pendingFunding: bigint;
+  reserveValue: bigint;
+  discountedReserveValue: bigint;
+  marginRatio: bigint;
+  minMargin: bigint;
+  accountLeverage: bigint;
+  /**
+   * Margin ratio left above the minimum margin, the account can be liquidated once it is negative
+   */
+  marginBuffer: bigint;
+  /**
+   * Loss in UA the account can take before becoming liquidatable, i.e. its free collateral at the minimum margin
+   */
+  lossToLiquidation: bigint;
+};
+
+const ERC20_SYMBOL = new Interface(["function symbol() view returns (string)"]);
+
+/**
+ * Number of markets and collaterals listed in the same call as their count
+ */
+const LISTING_BOUND = 32;
+
+const range = (start: number, end: number) =>
+  Array.from({ length: Math.max(end - start, 0) }, (_, i) => start + i);
+
+/**
+ * Reads the positions, collaterals and margin of an account across every market, all at the same block. This takes
+ * two RPC round trips, as Multicall3 can't feed the result of a call into another: the markets and collaterals are
+ * listed in a first call, along with the number of the block it runs at, and the reads about the account, which
+ * need the market ids and collateral addresses, are pinned to that block in a second call (a third one lists the rest
+ * of the markets or collaterals past LISTING_BOUND)
+ */
+export const getAccountRisk = async (
+  provider: Provider,
+  account: string,
+  blockTag: BlockTag = "latest"
+): Promise<AccountRisk> => {
+  const addresses = await getProtocolAddresses(
+    "CLEARING_HOUSE",
+    "CLEARING_HOUSE_VIEWER",
+    "VAULT"
+  );
+  const clearingHouse = new Contract(
+    addresses.CLEARING_HOUSE,
+    await getInterface("ClearingHouse"),
+    provider
+  );
+  const viewer = new Contract(
+    addresses.CLEARING_HOUSE_VIEWER,
+    await getInterface("ClearingHouseViewer"),
+    provider
+  );
+  const vault = new Contract(
+    addresses.VAULT,
+    await getInterface("Vault"),
+    provider
+  );
+  const multicall = new Contract(
+    getMulticall3Address(),
+    await getInterface("Multicall3"),
+    provider
+  );
+
+  // The markets and collaterals are listed in the same call as their count, up to LISTING_BOUND of each. Reads past
+  // the end of the lists revert and are ignored, longer lists get the rest of their entries read in another call
+  const listingReads = (
+    start: number,
+    marketsEnd: number,
+    collateralsEnd: number,
+    allowFailure = false
+  ): MulticallRead[] => [
+    ...range(start, marketsEnd).map(i => ({
+      contract: clearingHouse,
+      method: "id",
+      args: [i],
+      allowFailure
+    })),
+    ...range(start, collateralsEnd).map(i => ({
+      contract: vault,
+      method: "getWhiteListedCollateral",
+      args: [i],
+      allowFailure
+    }))
+  ];
+  const [
+    blockResult,
+    numMarketsResult,
+    numCollateralsResult,
+    minMarginResult,
+    ...listed
+  ] = await multicallRead(
+    provider,
+    [
+      { contract: multicall, method: "getBlockNumber" },
+      { contract: clearingHouse, method: "getNumMarkets" },
+      { contract: vault, method: "getNumberOfCollaterals" },
+      { contract: clearingHouse, method: "minMargin" },
+      ...listingReads(0, LISTING_BOUND, LISTING_BOUND, true)
+    ],
+    blockTag
+  );
+  const block = Number(blockResult![0]);
+  const numMarkets = Number(numMarketsResult![0]);
+  const numCollaterals = Number(numCollateralsResult![0]);
+  const minMargin = minMarginResult![0] as bigint;
+  const marketListing = listed.slice(0, Math.min(numMarkets, LISTING_BOUND));
+  const collateralListing = listed.slice(
+    LISTING_BOUND,
+    LISTING_BOUND + Math.min(numCollaterals, LISTING_BOUND)
+  );
+  if (numMarkets > LISTING_BOUND || numCollaterals > LISTING_BOUND) {
+    const rest = await multicallRead(
+      provider,
+      listingReads(LISTING_BOUND, numMarkets, numCollaterals),
+      block
+    );
+    const restMarkets = Math.max(numMarkets - LISTING_BOUND, 0);
+    marketListing.push(...rest.slice(0, restMarkets));
+    collateralListing.push(...rest.slice(restMarkets));
+  }
+
+  const idxs = marketListing.map(result => result![0] as bigint);
+  const assets = collateralListing.map(result => result![0] as Result);
+  const tokenIndexes = range(0, numCollaterals).map(BigInt);
+
+  const accountReads: MulticallRead[] = [
+    {
+      contract: viewer,
+      method: "getFundingPaymentsAcrossMarkets",
+      args: [account]
+    },
+    { contract: viewer, method: "getReserveValue", args: [account, false] },
+    { contract: viewer, method: "getReserveValue", args: [account, true] },
+    { contract: viewer, method: "marginRatio", args: [account] },
+    { contract: viewer, method: "accountLeverage", args: [account] },
+    {
+      contract: viewer,
+      method: "getFreeCollateralByRatio",
+      args: [account, minMargin]
+    }
+  ];
+  for (const idx of idxs) {
+    const marketRead = (method: string, allowFailure = false) => ({
+      contract: viewer,
+      method,
+      args: [idx, account],
+      allowFailure
+    });
+    accountReads.push(
+      { contract: viewer, method: "perpetual", args: [idx] },
+      marketRead("isTraderPositionOpen"),
+      marketRead("getTraderPosition"),
+      marketRead("getTraderUnrealizedPnL"),
+      marketRead("isLpPositionOpen"),
+      marketRead("getLpPosition"),
+      // Reverts when the market holds no liquidity at all
+      marketRead("getLpUnrealizedPnL", true),
+      marketRead("getLpTradingFees"),
+      marketRead("getFundingPayments"),
+      marketRead("marketLeverage")
+    );
+  }
+  for (const [i, asset] of assets.entries()) {
+    accountReads.push(
+      {
+        contract: new Contract(asset.asset, ERC20_SYMBOL, provider),
+        method: "symbol"
+      },
+      {
+        contract: vault,
+        method: "getBalance",
+        args: [account, tokenIndexes[i]]
+      }
+    );
+  }
+
+  const results = await multicallRead(provider, accountReads, block);
+  let cursor = 0;
+  const next = () => results[cursor++]?.[0];
+
+  const risk = {
+    account,
+    block,
+    minMargin,
+    pendingFunding: next() as bigint,
+    reserveValue: next() as bigint,
+    discountedReserveValue: next() as bigint,
+    marginRatio: next() as bigint,
+    accountLeverage: next() as bigint,
+    lossToLiquidation: next() as bigint
+  };
+
+  const markets: MarketRisk[] = idxs.map(idx => {
+    const perpetual: string = next();
+    const isTraderOpen: boolean = next();
+    const traderPosition: Result = next();
+    const traderPnl: bigint = next();
+    const isLpOpen: boolean = next();
+    const lpPosition: Result = next();
+    const lpPnl: bigint | undefined = next();
+    const lpFees: bigint = next();
+    return {
+      idx,
+      perpetual,
+      trader: {
+        isOpen: isTraderOpen,
+        openNotional: traderPosition.openNotional,
+        positionSize: traderPosition.positionSize,
+        unrealizedPnl: isTraderOpen ? traderPnl : 0n
+      },
+      lp: {
+        isOpen: isLpOpen,
+        openNotional: lpPosition.openNotional,
+        positionSize: lpPosition.positionSize,
+        liquidityBalance: lpPosition.liquidityBalance,
+        unrealizedPnl: isLpOpen ? lpPnl ?? 0n : 0n,
+        tradingFees: lpFees
+      },
+      pendingFunding: next(),
+      leverage: next()
+    };
+  });
+
+  const collaterals: CollateralBalance[] = assets.map((asset, i) => ({
+    tokenIdx: tokenIndexes[i],
+    asset: asset.asset,
+    symbol: next(),
+    balance: next(),
+    weight: asset.weight
+  }));
+
+  return {
+    ...risk,
+    markets,
+    collaterals,
+    marginBuffer: risk.marginRatio - minMargin
+  };
+};
+
+/**
+ * Renders the risk of an account as plain text tables, leaving out markets without a position and empty balances
+ */
+export const renderAccountRisk = (risk: AccountRisk) => {
+  const openMarkets = risk.markets.filter(
+    market => market.trader.isOpen || market.lp.isOpen
+  );
+  const balances = risk.collaterals.filter(({ balance }) => balance !== 0n);
+
+  const summary = renderTable(
+    ["Metric", "Value"],
+    [
+      ["Reserve value", formatAmount(risk.reserveValue)],
+      ["Discounted reserve value", formatAmount(risk.discountedReserveValue)],
+      ["Pending funding", formatAmount(risk.pendingFunding)],
+      ["Margin ratio", formatAmount(risk.marginRatio)],
+      ["Minimum margin", formatAmount(risk.minMargin)],
+      ["Margin buffer", formatAmount(risk.marginBuffer)],
+      ["Loss to liquidation (UA)", formatAmount(risk.lossToLiquidation)],
+      ["Account leverage", formatAmount(risk.accountLeverage)]
+    ]
+  );
+  const positions = renderTable(
+    [
+      "Market",
+      "Type",
+      "Open notional",
+      "Position size",
+      "LP tokens",
+      "Unrealized PnL",
+      "LP fees",
+      "Pending funding",
+      "Leverage"
+    ],
+    openMarkets.flatMap(market => [
+      ...(market.trader.isOpen
+        ? [
+            [
+              market.idx.toString(),
+              "trader",
+              formatAmount(market.trader.openNotional),
+              formatAmount(market.trader.positionSize),
+              "",
+              formatAmount(market.trader.unrealizedPnl),
+              "",
+              formatAmount(market.pendingFunding),
+              formatAmount(market.leverage)
+            ]
+          ]
+        : []),
+      ...(market.lp.isOpen
+        ? [
+            [
+              market.idx.toString(),
+              "LP",
+              formatAmount(market.lp.openNotional),
+              formatAmount(market.lp.positionSize),
+              formatAmount(market.lp.liquidityBalance),
+              formatAmount(market.lp.unrealizedPnl),
+              formatAmount(market.lp.tradingFees),
+              market.trader.isOpen ? "" : formatAmount(market.pendingFunding),
+              market.trader.isOpen ? "" : formatAmount(market.leverage)
+            ]
+          ]
+        : [])
+    ])
+  );
+  const collaterals = renderTable(
+    ["Collateral", "Balance", "Weight"],
+    balances.map(({ symbol, balance, weight }) => [
+      symbol,
+      formatAmount(balance),
+      formatAmount(weight)
+    ])
+  );
+
+  return [
+    `Account ${risk.account} at block ${risk.block}`,
+    summary,
+    openMarkets.length ? positions : "No open position",
+    balances.length ? collaterals : "No collateral deposited"
+  ].join("\n\n");
+};
@@ -0,0 +1,137 @@
+import fs from "fs";
+import path from "path";
+import { Contract, ContractRunner, getAddress } from "ethers";
+import * as hre from "hardhat";
+
+import { getInterface } from "./abi";
+import { getProvider } from "./utils";
+import { DeploymentManifest } from "./manifest";
+
+/**
+ * Addresses of the contracts deployed by deploy-base-protocol, keyed the same way as the network profile addresses
+ */
+export type ProtocolAddresses = {
+  USDC_MOCK: string;
+  UA: string;
+  VAULT: string;
+  INSURANCE: string;
+  SEQUENCER_UPTIME_FEED: string;
+  ORACLE: string;
+  CLEARING_HOUSE: string;
+  CURVE_CRYPTO_VIEWS: string;
+  CLEARING_HOUSE_VIEWER: string;
+  UA_HELPER: string;
+  OWNED_MULTICALL: string;
+  PERP_MARKET_FACTORY: string;
+};
+
+export type ProtocolContract = keyof ProtocolAddresses;
+
+// Manifest entry each address book entry is generated from
+const MANIFEST_KEYS: Record<ProtocolContract, string> = {
+  USDC_MOCK: "USDCMock",
+  UA: "UA",
+  VAULT: "Vault",
+  INSURANCE: "Insurance",
+  SEQUENCER_UPTIME_FEED: "SequencerUptimeFeed",
+  ORACLE: "Oracle",
+  CLEARING_HOUSE: "ClearingHouse",
+  CURVE_CRYPTO_VIEWS: "CurveCryptoViews",
+  CLEARING_HOUSE_VIEWER: "ClearingHouseViewer",
+  UA_HELPER: "UAHelper",
+  OWNED_MULTICALL: "OwnedMulticall3",
+  PERP_MARKET_FACTORY: "PerpMarketFactory"
+};
+
+/**
+ * Returns the name of the artifact a contract of the address book was deployed from
+ */
+export const getArtifactName = (name: ProtocolContract) => MANIFEST_KEYS[name];
+
+export const getAddressBookPath = (network = hre.network.name) =>
+  path.join(hre.config.paths.root, "deployments", network, "addresses.json");
+
+/**
+ * Writes the address book of the manifest's network, keeping entries the manifest doesn't know about
+ * (e.g. contracts deployed before deployments were recorded)
+ */
+export const writeAddressBook = (manifest: DeploymentManifest) => {
+  const addressBookPath = getAddressBookPath(manifest.network);
+  const addresses = loadAddressBook(manifest.network);
+
+  for (const [name, manifestKey] of Object.entries(MANIFEST_KEYS)) {
+    const record = manifest.contracts[manifestKey];
+    if (record) addresses[name as ProtocolContract] = record.address;
+  }
+
+  fs.mkdirSync(path.dirname(addressBookPath), { recursive: true });
+  fs.writeFileSync(addressBookPath, JSON.stringify(addresses, null, 2) + "\n");
+  console.log(`Address book written to ${addressBookPath}`);
+};
+
+export const loadAddressBook = (
+  network = hre.network.name
+): Partial<ProtocolAddresses> => {
+  const addressBookPath = getAddressBookPath(network);
+  if (!fs.existsSync(addressBookPath)) return {};
+  return JSON.parse(fs.readFileSync(addressBookPath, "utf8"));
+};
+
+// Contracts the address book may lack (e.g. deployed before deployments were recorded), read from a getter of a
+// contract they are wired to. Ordered so that each one is resolved before the lookups relying on it
+const ON_CHAIN_LOOKUPS: [
+  ProtocolContract,
+  ProtocolContract,
+  string,
+  string
+][] = [
+  ["VAULT", "CLEARING_HOUSE", "ClearingHouse", "vault"],
+  ["INSURANCE", "CLEARING_HOUSE", "ClearingHouse", "insurance"],
+  ["UA", "VAULT", "Vault", "UA"],
+  ["ORACLE", "VAULT", "Vault", "oracle"],
+  ["SEQUENCER_UPTIME_FEED", "ORACLE", "Oracle", "sequencerUptimeFeed"]
+];
+
+/**
+ * Loads the address book of the active network, completed with the contracts the ClearingHouse is wired to
+ */
+export const resolveAddressBook = async (
+  runner: ContractRunner = getProvider()
+): Promise<Partial<ProtocolAddresses>> => {
+  const addresses = loadAddressBook();
+  for (const [name, from, contract, getter] of ON_CHAIN_LOOKUPS) {
+    if (addresses[name] || !addresses[from]) continue;
+    const source = new Contract(
+      addresses[from]!,
+      await getInterface(contract),
+      runner
+    );
+    addresses[name] = getAddress(await source[getter]());
+  }
+  return addresses;
+};
+
+/**
+ * Returns the deployed addresses of the active network, throwing if any of the requested ones is missing. Those
+ * missing from the address book are read from the contracts they are wired to, see `resolveAddressBook`
+ */
+export const getProtocolAddresses = async <T extends ProtocolContract>(
+  ...names: T[]
+): Promise<Pick<ProtocolAddresses, T>> => {
+  const network = hre.network.name;
+  let addresses = loadAddressBook(network);
+  if (names.some(name => !addresses[name]))
+    addresses = await resolveAddressBook();
+
+  const missing = names.filter(name => !addresses[name]);
+  if (missing.length > 0)
+    throw `⛔️ Missing ${missing.join(
+      ", "
+    )} address for network "${network}" in ${getAddressBookPath(
+      network
+    )}! Run deploy-base-protocol on this network first, or add the address of contracts deployed without it (${missing
+      .map(name => `"${name}": "0x..."`)
+      .join(", ")})`;
+
+  return addresses as Pick<ProtocolAddresses, T>;
+};
@@ -0,0 +1,242 @@
+import fs from "fs";
+import path from "path";
+import { Contract, ZeroHash, getAddress, id, isAddress } from "ethers";
+import { utils } from "zksync-ethers";
+import * as hre from "hardhat";
+
+import { getProvider } from "./utils";
+import { getProtocolAddresses, resolveAddressBook } from "./addresses";
+import { getNetworkProfile } from "./networks";
+import { getMarkets } from "./markets";
+import { getInterface } from "./abi";
+import { findDeploymentBlock, getLogsInRange } from "../sdk/events";
+
+/**
+ * Expected holders of each role, given as address book entries (e.g. "OWNED_MULTICALL"), network profile
+ * addresses (e.g. "EMERGENCY_ADMIN"), "L1_TIMELOCK_ALIAS" or plain addresses. `contracts` overrides the
+ * default policy for a contract, keyed by artifact name
+ */
+type RolePolicy = {
+  default: Record<string, string[]>;
+  contracts: Record<string, Record<string, string[]>>;
+};
+
+type AuditedContract = {
+  label: string;
+  contract: string;
+  address: string;
+};
+
+const ROLE_NAMES: Record<string, string> = {
+  [ZeroHash]: "DEFAULT_ADMIN_ROLE",
+  [id("GOVERNANCE")]: "GOVERNANCE",
+  [id("EMERGENCY_ADMIN")]: "EMERGENCY_ADMIN"
+};
+
+const getRoleName = (role: string) => ROLE_NAMES[role] ?? role;
+
+const getRoleHash = (name: string) =>
+  Object.keys(ROLE_NAMES).find(role => ROLE_NAMES[role] === name) ?? id(name);
+
+const loadRolePolicy = (): RolePolicy => {
+  const policyPath =
+    process.env.ROLE_POLICY_FILE ??
+    path.join(hre.config.paths.root, "deploy", "role-policy.json");
+  return JSON.parse(fs.readFileSync(policyPath, "utf8"));
+};
+
+export default async function() {
+  const provider = getProvider();
+  const profile = getNetworkProfile();
+  const policy = loadRolePolicy();
+  const addressBook = await resolveAddressBook(provider);
+  const timelockAlias = getAddress(
+    utils.applyL1ToL2Alias(profile.addresses.L1_TIMELOCK)
+  );
+  const addresses = await getProtocolAddresses(
+    "UA",
+    "VAULT",
+    "INSURANCE",
+    "ORACLE",
+    "CLEARING_HOUSE",
+    "OWNED_MULTICALL"
+  );
+
+  const resolveHolder = (holder: string) => {
+    if (isAddress(holder)) return getAddress(holder);
+    if (holder === "L1_TIMELOCK_ALIAS") return timelockAlias;
+    const address =
+      addressBook[holder as keyof typeof addressBook] ??
+      profile.addresses[holder as keyof typeof profile.addresses];
+    if (typeof address !== "string")
+      throw `⛔️ Unknown role holder "${holder}" in the role policy!`;
+    return getAddress(address);
+  };
+
+  // Names the holders found on-chain after the entries they match
+  const holderNames: Record<string, string> = {
+    [timelockAlias]: "L1_TIMELOCK_ALIAS"
+  };
+  for (const [name, address] of [
+    ...Object.entries(profile.addresses),
+    ...Object.entries(addressBook)
+  ]) {
+    if (typeof address === "string" && isAddress(address))
+      holderNames[getAddress(address)] = name;
+  }
+  const describe = (account: string) =>
+    holderNames[account] ? `${account} (${holderNames[account]})` : account;
+
+  const markets = await getMarkets(provider);
+  const audited: AuditedContract[] = [
+    { label: "UA", contract: "UA", address: addresses.UA },
+    { label: "Vault", contract: "Vault", address: addresses.VAULT },
+    { label: "Insurance", contract: "Insurance", address: addresses.INSURANCE },
+    { label: "Oracle", contract: "Oracle", address: addresses.ORACLE },
+    {
+      label: "ClearingHouse",
+      contract: "ClearingHouse",
+      address: addresses.CLEARING_HOUSE
+    },
+    ...markets.flatMap(market => [
+      {
+        label: `Perpetual #${market.idx}`,
+        contract: "Perpetual",
+        address: market.perpetual
+      },
+      {
+        label: `VBase #${market.idx}`,
+        contract: "VBase",
+        address: market.vBase
+      }
+    ])
+  ];
+
+  const accessControl = await getInterface("IncreAccessControl");
+  const roleEvents = [
+    accessControl.getEvent("RoleGranted")!.topicHash,
+    accessControl.getEvent("RoleRevoked")!.topicHash
+  ];
+  const fromBlockOverride = process.env.AUDIT_FROM_BLOCK;
+  const latestBlock = await provider.getBlockNumber();
+  const deviations: string[] = [];
+
+  for (const { label, contract, address } of audited) {
+    console.log(`\n${label} (${address})`);
+
+    const fromBlock = fromBlockOverride
+      ? Number(fromBlockOverride)
+      : await findDeploymentBlock(provider, address);
+    const logs = await getLogsInRange(
+      provider,
+      { address, topics: [roleEvents] },
+      fromBlock,
+      latestBlock
+    );
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    // Replay the role history to find the current holders
+    const holders: Record<string, Set<string>> = {};
+    for (const log of logs) {
+      const event = accessControl.parseLog({
+        topics: [...log.topics],
+        data: log.data
+      })!;
+      const role: string = event.args.role;
+      const account = getAddress(event.args.account);
+      holders[role] = holders[role] ?? new Set();
+      if (event.name === "RoleGranted") holders[role].add(account);
+      else holders[role].delete(account);
+
+      console.log(
+        `  block ${log.blockNumber}: ${event.name} ${getRoleName(
+          role
+        )} ${describe(account)} by ${describe(getAddress(event.args.sender))}`
+      );
+    }
+
+    const instance = new Contract(address, accessControl, provider);
+    const expectedRoles = {
+      ...policy.default,
+      ...policy.contracts[contract]
+    };
+    const roles = new Set([
+      ...Object.keys(holders),
+      ...Object.keys(expectedRoles).map(getRoleHash)
+    ]);
+
+    for (const role of roles) {
+      const roleName = getRoleName(role);
+      const expected = new Set(
+        (expectedRoles[roleName] ?? []).map(resolveHolder)
+      );
+
+      for (const account of new Set([...(holders[role] ?? []), ...expected])) {
+        const hasRole: boolean = await instance.hasRole(role, account);
+        if (hasRole !== (holders[role]?.has(account) ?? false))
+          deviations.push(
+            `${label}: event history and hasRole disagree on ${roleName} for ${describe(
+              account
+            )}`
+          );
+        if (hasRole && !expected.has(account))
+          deviations.push(
+            `${label}: unexpected ${roleName} holder ${describe(account)}`
+          );
+        if (!hasRole && expected.has(account))
+          deviations.push(
+            `${label}: ${describe(account)} is missing ${roleName}`
+          );
+      }
+    }
+  }
+
+  // Virtual tokens aren't access controlled, they can only be minted and burned by their perpetual
+  for (const market of markets) {
+    for (const [contract, address] of [
+      ["VBase", market.vBase],
+      ["VQuote", market.vQuote]
+    ]) {
+      const token = new Contract(
+        address,
+        await getInterface(contract),
+        provider
+      );
+      const owner = getAddress(await token.perp());
+      console.log(`\n${contract} #${market.idx} (${address}) perp: ${owner}`);
+      if (owner !== getAddress(market.perpetual))
+        deviations.push(
+          `${contract} #${market.idx}: perp owner is ${describe(
+            owner
+          )} instead of its Perpetual ${market.perpetual}`
+        );
+    }
+  }
+
+  const multicall = new Contract(
+    addresses.OWNED_MULTICALL,
+    await getInterface("OwnedMulticall3"),
+    provider
+  );
+  const multicallOwner = getAddress(await multicall.owner());
+  console.log(
+    `\nOwnedMulticall3 (${addresses.OWNED_MULTICALL}) owner: ${describe(
+      multicallOwner
+    )}`
+  );
+  if (multicallOwner !== timelockAlias)
+    deviations.push(
+      `OwnedMulticall3: owner is ${describe(
+        multicallOwner
+      )} instead of the L1 timelock alias ${timelockAlias}`
+    );
+
+  if (deviations.length > 0)
+    throw `⛔️ ${
+      deviations.length
+    } deviation(s) from the role policy:\n${deviations
+      .map(deviation => ` - ${deviation}`)
+      .join("\n")}`;
+
+  console.log("\n✅ Roles and ownership match the role policy");
+}
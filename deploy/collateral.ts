@@ -0,0 +1,136 @@
+import { Contract, ContractRunner, Provider } from "ethers";
+
+/**
+ * Parameters of a collateral, amounts and prices being 18 decimals. Unset ones are left unchanged
+ */
+export type CollateralParams = {
+  decimals?: bigint;
+  weight?: bigint;
+  /**
+   * Cap of the total deposits of the collateral, converted to 18 decimals like every Vault amount
+   */
+  maxAmount?: bigint;
+  heartBeat?: bigint;
+  /**
+   * Price returned by the Oracle instead of the feed answer, 0 to read the feed
+   */
+  fixedPrice?: bigint;
+};
+
+export type CollateralToken = {
+  address: string;
+  symbol: string;
+  decimals: bigint;
+  /**
+   * Underlying asset of ERC-4626 vaults, whose price the feed must return
+   */
+  underlying?: { address: string; symbol: string; decimals: bigint };
+};
+
+export type FeedCheck = {
+  description: string;
+  decimals: bigint;
+  answer: bigint;
+  updatedAt: bigint;
+  /**
+   * Seconds left before the Oracle rejects the answer as stale, negative once it does
+   */
+  secondsToStale: bigint;
+  /**
+   * Seconds between the two latest rounds, undefined if the previous round can't be read
+   */
+  lastInterval?: bigint;
+};
+
+const TOKEN_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function asset() view returns (address)"
+];
+
+const AGGREGATOR_ABI = [
+  "function description() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+  "function getRoundData(uint80 roundId) view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)"
+];
+
+const readToken = async (runner: ContractRunner, address: string) => {
+  const token = new Contract(address, TOKEN_ABI, runner);
+  try {
+    return {
+      token,
+      symbol: (await token.symbol()) as string,
+      decimals: (await token.decimals()) as bigint
+    };
+  } catch {
+    throw `⛔️ ${address} isn't an ERC20 token!`;
+  }
+};
+
+/**
+ * Reads the symbol and decimals of a token, and of its underlying asset if it is an ERC-4626 vault
+ */
+export const readCollateralToken = async (
+  runner: ContractRunner,
+  address: string,
+  isVault: boolean
+): Promise<CollateralToken> => {
+  const { token, symbol, decimals } = await readToken(runner, address);
+  if (!isVault) return { address, symbol, decimals };
+
+  let underlyingAddress: string;
+  try {
+    underlyingAddress = await token.asset();
+  } catch {
+    throw `⛔️ ${symbol} (${address}) isn't an ERC-4626 vault!`;
+  }
+  const underlying = await readToken(runner, underlyingAddress);
+  return {
+    address,
+    symbol,
+    decimals,
+    underlying: {
+      address: underlyingAddress,
+      symbol: underlying.symbol,
+      decimals: underlying.decimals
+    }
+  };
+};
+
+/**
+ * Reads the latest round of a Chainlink feed, as checked by `Oracle.getPrice`, along with the interval between its
+ * two latest rounds to compare with the heart beat
+ */
+export const checkCollateralFeed = async (
+  provider: Provider,
+  address: string,
+  heartBeat: bigint
+): Promise<FeedCheck> => {
+  const feed = new Contract(address, AGGREGATOR_ABI, provider);
+  let round: { roundId: bigint; answer: bigint; updatedAt: bigint };
+  try {
+    round = await feed.latestRoundData();
+  } catch {
+    throw `⛔️ ${address} isn't a Chainlink price feed!`;
+  }
+  const { timestamp } = (await provider.getBlock("latest"))!;
+
+  let lastInterval: bigint | undefined;
+  try {
+    const previous = await feed.getRoundData(round.roundId - 1n);
+    if (previous.updatedAt > 0n)
+      lastInterval = round.updatedAt - previous.updatedAt;
+  } catch {
+    // First round, or round ids not consecutive across phases
+  }
+
+  return {
+    description: await feed.description().catch(() => ""),
+    decimals: await feed.decimals(),
+    answer: round.answer,
+    updatedAt: round.updatedAt,
+    secondsToStale: round.updatedAt + heartBeat - BigInt(timestamp),
+    lastInterval
+  };
+};
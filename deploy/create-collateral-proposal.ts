@@ -0,0 +1,190 @@
+import { Contract, formatEther, getAddress, parseEther } from "ethers";
+
+import { getProvider, getWallet } from "./utils";
+import { getInterface } from "./abi";
+import { getProtocolAddresses } from "./addresses";
+import { getNetworkProfile } from "./networks";
+import { checkCollateralFeed, readCollateralToken } from "./collateral";
+import { assertValidParams, validateCollateralParams } from "./validation";
+import { buildProposal, L2Action, l2Action, submitProposal } from "./proposal";
+import { trackProposal } from "./proposal-lifecycle";
+import { assertProposalSucceeds } from "./simulation";
+
+const parseOptionalEther = (value?: string) =>
+  value ? parseEther(value) : undefined;
+
+/**
+ * Proposes to onboard a collateral (COLLATERAL_MODE=add): sets its price feed in the Oracle, along with a fixed
+ * price if any, and whitelists it in the Vault. COLLATERAL_MODE=update changes the weight and/or max amount of a
+ * collateral already whitelisted
+ */
+export default async function() {
+  let step = 1;
+  const logStep = (message: string) =>
+    console.log(`Step ${step++}: ${message}`);
+
+  const mode = process.env.COLLATERAL_MODE || "add";
+  if (mode !== "add" && mode !== "update")
+    throw `⛔️ COLLATERAL_MODE must be "add" or "update", not "${mode}"!`;
+  if (!process.env.COLLATERAL_TOKEN) {
+    throw "⛔️ Collateral token (COLLATERAL_TOKEN) wasn't found in .env file!";
+  }
+  const tokenAddress = getAddress(process.env.COLLATERAL_TOKEN);
+  const weight = parseOptionalEther(process.env.COLLATERAL_WEIGHT);
+  const maxAmount = parseOptionalEther(process.env.COLLATERAL_MAX_AMOUNT);
+
+  const wallet = getWallet();
+  const provider = getProvider();
+  const addresses = await getProtocolAddresses("VAULT", "UA");
+  const vault = new Contract(
+    addresses.VAULT,
+    await getInterface("Vault"),
+    wallet
+  );
+  const tokenIdx: bigint = await vault.tokenToCollateralIdx(tokenAddress);
+  const isWhiteListed =
+    tokenIdx !== 0n || tokenAddress === getAddress(addresses.UA);
+
+  logStep("Read the collateral token");
+  const isVault = process.env.COLLATERAL_IS_VAULT === "true";
+  const token = await readCollateralToken(wallet, tokenAddress, isVault);
+  console.log(
+    ` - ${token.symbol} (${token.address}), ${token.decimals} decimals`
+  );
+  if (token.underlying)
+    console.log(
+      ` - ERC-4626 vault of ${token.underlying.symbol} (${token.underlying.address}), ${token.underlying.decimals} decimals`
+    );
+
+  const actions: L2Action[] = [];
+  let description: string;
+
+  if (mode === "update") {
+    if (!isWhiteListed)
+      throw `⛔️ ${token.symbol} isn't a collateral of the Vault, add it with COLLATERAL_MODE=add first!`;
+    if (weight === undefined && maxAmount === undefined)
+      throw "⛔️ Neither COLLATERAL_WEIGHT nor COLLATERAL_MAX_AMOUNT were found in .env file!";
+    assertValidParams(validateCollateralParams({ weight, maxAmount }));
+
+    const collateral = await vault.getWhiteListedCollateral(tokenIdx);
+    logStep("Encode the changes of the collateral");
+    if (weight !== undefined) {
+      console.log(
+        ` - weight: ${formatEther(collateral.weight)} -> ${formatEther(weight)}`
+      );
+      actions.push(
+        await l2Action("VAULT", "changeCollateralWeight", [
+          tokenAddress,
+          weight
+        ])
+      );
+    }
+    if (maxAmount !== undefined) {
+      console.log(
+        ` - max amount: ${formatEther(collateral.maxAmount)} -> ${formatEther(
+          maxAmount
+        )}`
+      );
+      if (maxAmount < collateral.currentAmount)
+        console.log(
+          `⚠️ ${formatEther(collateral.currentAmount)} ${
+            token.symbol
+          } are already deposited, no more deposits will be accepted until withdrawals bring it under the new max amount`
+        );
+      actions.push(
+        await l2Action("VAULT", "changeCollateralMaxAmount", [
+          tokenAddress,
+          maxAmount
+        ])
+      );
+    }
+    description = `update ${token.symbol} collateral`;
+  } else {
+    if (isWhiteListed)
+      throw `⛔️ ${token.symbol} is already a collateral of the Vault, use COLLATERAL_MODE=update to change its parameters!`;
+    if (!process.env.COLLATERAL_ORACLE || !process.env.COLLATERAL_HEARTBEAT) {
+      throw "⛔️ Collateral price feed (COLLATERAL_ORACLE) or heart beat (COLLATERAL_HEARTBEAT) weren't found in .env file!";
+    }
+    if (weight === undefined || maxAmount === undefined) {
+      throw "⛔️ Collateral weight (COLLATERAL_WEIGHT) or max amount (COLLATERAL_MAX_AMOUNT) weren't found in .env file!";
+    }
+    const feedAddress = getAddress(process.env.COLLATERAL_ORACLE);
+    const heartBeat = BigInt(process.env.COLLATERAL_HEARTBEAT);
+    const fixedPrice = parseOptionalEther(process.env.COLLATERAL_FIXED_PRICE);
+    assertValidParams([
+      ...validateCollateralParams({
+        decimals: token.decimals,
+        weight,
+        maxAmount,
+        heartBeat,
+        fixedPrice
+      }),
+      ...(token.underlying
+        ? validateCollateralParams(
+            { decimals: token.underlying.decimals },
+            "collateral.underlying"
+          )
+        : [])
+    ]);
+
+    logStep("Check the price feed");
+    const feed = await checkCollateralFeed(provider, feedAddress, heartBeat);
+    console.log(
+      ` - ${feed.description || feedAddress}: ${feed.answer} (${
+        feed.decimals
+      } decimals), updated at ${feed.updatedAt}`
+    );
+    // A fixed price bypasses the feed, which must still be set in the Oracle
+    const report = (message: string) => {
+      if (!fixedPrice) throw `⛔️ ${message}!`;
+      console.log(`⚠️ ${message}, ignored as the price is fixed`);
+    };
+    if (feed.answer <= 0n) report(`The feed returns ${feed.answer}`);
+    if (feed.updatedAt === 0n || feed.secondsToStale < 0n)
+      report(
+        `The feed wasn't updated for more than the heart beat of ${heartBeat}s`
+      );
+    if (feed.lastInterval !== undefined && feed.lastInterval > heartBeat)
+      console.log(
+        `⚠️ The two latest rounds of the feed are ${feed.lastInterval}s apart, more than the heart beat of ${heartBeat}s: prices would regularly be rejected as stale`
+      );
+
+    logStep("Encode the Oracle and Vault calls");
+    actions.push(
+      await l2Action("ORACLE", "setOracle", [
+        tokenAddress,
+        feedAddress,
+        heartBeat,
+        isVault
+      ])
+    );
+    if (fixedPrice)
+      actions.push(
+        await l2Action("ORACLE", "setFixedPrice", [tokenAddress, fixedPrice])
+      );
+    actions.push(
+      await l2Action("VAULT", "addWhiteListedCollateral", [
+        tokenAddress,
+        weight,
+        maxAmount
+      ])
+    );
+    description = `add ${token.symbol} collateral`;
+  }
+  actions.forEach(action => console.log(` - ${action.description}`));
+
+  if (process.env.SIMULATION_RPC_URL) {
+    console.log("Simulate L2 actions on a local fork");
+    await assertProposalSucceeds(actions);
+  }
+  if (process.env.DRY_RUN === "true") return;
+
+  logStep("Create proposal");
+  const proposal = await buildProposal(actions, description);
+  const proposalId = await submitProposal(proposal);
+
+  if (getNetworkProfile().autoExecuteProposals) {
+    logStep("Vote, queue and execute proposal");
+    await trackProposal(proposalId, { vote: true });
+  }
+}
@@ -0,0 +1,61 @@
+import fs from "fs";
+
+import {
+  ActionTarget,
+  buildProposal,
+  l2Action,
+  submitProposal
+} from "./proposal";
+import { trackProposal } from "./proposal-lifecycle";
+import { assertProposalSucceeds } from "./simulation";
+import { getNetworkProfile } from "./networks";
+
+/**
+ * Format of the file passed through PROPOSAL_FILE, e.g.
+ * {
+ *   "description": "lower ETH oracle heart beat",
+ *   "actions": [
+ *     { "target": "ORACLE", "method": "setHeartBeat", "args": ["0x...", 3600] }
+ *   ]
+ * }
+ */
+type ProposalFile = {
+  description: string;
+  actions: { target: ActionTarget; method: string; args?: any[] }[];
+};
+
+export default async function() {
+  const proposalFile = process.env.PROPOSAL_FILE;
+  if (!proposalFile) {
+    throw "⛔️ Proposal file wasn't found in .env file!";
+  }
+
+  const { description, actions }: ProposalFile = JSON.parse(
+    fs.readFileSync(proposalFile, "utf8")
+  );
+
+  console.log("Step 1: Encode L2 actions");
+  const l2Actions = [];
+  for (const { target, method, args } of actions) {
+    const action = await l2Action(target, method, args);
+    console.log(` - ${action.description}`);
+    l2Actions.push(action);
+  }
+
+  if (process.env.SIMULATION_RPC_URL) {
+    console.log("Simulate L2 actions on a local fork");
+    await assertProposalSucceeds(l2Actions);
+  }
+  if (process.env.DRY_RUN === "true") return;
+
+  console.log("Step 2: Encode multicall as a cross chain transaction");
+  const proposal = await buildProposal(l2Actions, description);
+
+  console.log("Step 3: Create proposal");
+  const proposalId = await submitProposal(proposal);
+
+  if (getNetworkProfile().autoExecuteProposals) {
+    console.log("Step 4: Vote, queue and execute proposal");
+    await trackProposal(proposalId, { vote: true });
+  }
+}
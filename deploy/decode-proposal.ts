@@ -0,0 +1,73 @@
+import fs from "fs";
+
+import { getL1Provider } from "./utils";
+import {
+  getGovernor,
+  getProposalRecordPath,
+  loadProposalRecord
+} from "./proposal";
+import {
+  decodeCalldata,
+  decodeProposal,
+  renderProposalReport
+} from "./proposal-report";
+
+/**
+ * Reads the targets and calldatas of a proposal from its local record, or from its
+ * ProposalCreated event when PROPOSAL_BLOCK gives the L1 block it was created in
+ */
+const getProposal = async (proposalId: string) => {
+  if (fs.existsSync(getProposalRecordPath(proposalId))) {
+    return loadProposalRecord(proposalId);
+  }
+
+  const proposalBlock = process.env.PROPOSAL_BLOCK;
+  if (!proposalBlock)
+    throw `⛔️ No record of proposal ${proposalId} found, please set PROPOSAL_BLOCK to the L1 block it was created in!`;
+
+  const governor = await getGovernor(getL1Provider());
+  const events = await governor.queryFilter(
+    governor.filters.ProposalCreated(),
+    Number(proposalBlock),
+    Number(proposalBlock)
+  );
+  const event = events.find(
+    event => "args" in event && event.args.proposalId.toString() === proposalId
+  );
+  if (!event || !("args" in event))
+    throw `⛔️ Proposal ${proposalId} wasn't created in block ${proposalBlock}!`;
+
+  return {
+    targets: [...event.args.targets],
+    calldatas: [...event.args.calldatas],
+    description: event.args.description
+  };
+};
+
+export default async function() {
+  const proposalId = process.env.PROPOSAL_ID;
+  const proposalCalldata = process.env.PROPOSAL_CALLDATA;
+
+  let report: string;
+  if (proposalId) {
+    const { targets, calldatas, description } = await getProposal(proposalId);
+    report = renderProposalReport(
+      `Proposal ${proposalId}`,
+      await decodeProposal(targets, calldatas),
+      description
+    );
+  } else if (proposalCalldata) {
+    report = renderProposalReport("Proposal calldata", [
+      await decodeCalldata(proposalCalldata, process.env.PROPOSAL_TARGET)
+    ]);
+  } else {
+    throw "⛔️ Neither a proposal id nor proposal calldata were found in .env file!";
+  }
+
+  if (process.env.REPORT_FILE) {
+    fs.writeFileSync(process.env.REPORT_FILE, report + "\n");
+    console.log(`Report written to ${process.env.REPORT_FILE}`);
+  } else {
+    console.log(report);
+  }
+}
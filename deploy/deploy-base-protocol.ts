@@ -1,101 +1,158 @@
 import { Deployer } from "@matterlabs/hardhat-zksync-deploy";
-import { parseEther } from "ethers";
+import { getAddress, parseEther } from "ethers";
 import { utils } from "zksync-ethers";
 import * as hre from "hardhat";
 
-import { deployContract, getWallet } from "./utils";
-import constants from "./constants";
+import { getWallet } from "./utils";
+import { deployOnce, loadManifest, runOnce } from "./manifest";
+import { writeAddressBook } from "./addresses";
+import { getNetworkProfile } from "./networks";
+import { assertValidParams, validateGlobalParams } from "./validation";
 
 export default async function() {
+  const profile = getNetworkProfile();
+  assertValidParams(validateGlobalParams(profile.global));
+
   const wallet = getWallet();
   const deployer = new Deployer(hre, wallet);
 
+  // Steps already recorded by a previous run are skipped
+  const manifest = await loadManifest(wallet);
+
+  // Deploy USDC Mock Contract, unless the network already has a reserve token
+  let usdcAddress = profile.addresses.USDC;
+  if (!usdcAddress) {
+    if (!profile.mockUSDC)
+      throw `⛔️ USDC address wasn't found in the "${hre.network.name}" profile!`;
+
+    const usdcMock = await deployOnce(manifest, "USDCMock", [
+      "USD Coin",
+      "USDC",
+      6
+    ]);
+    usdcAddress = await usdcMock.getAddress();
+  }
+
   // Deploy UA Contract
-  const ua = await deployContract("UA", [
-    constants.addresses.USDC,
-    constants.global.initialTokenMaxMintCap.toString()
+  const ua = await deployOnce(manifest, "UA", [
+    usdcAddress,
+    profile.global.initialTokenMaxMintCap.toString()
   ]);
   const uaAddress = await ua.getAddress();
 
   // Deploy Vault Contract
-  const vault = await deployContract("Vault", [uaAddress]);
+  const vault = await deployOnce(manifest, "Vault", [uaAddress]);
   const vaultAddress = await vault.getAddress();
 
   // Deploy Insurance Contract
-  const insurance = await deployContract("Insurance", [
+  const insurance = await deployOnce(manifest, "Insurance", [
     uaAddress,
     vaultAddress
   ]);
   const insuranceAddress = await insurance.getAddress();
-  await vault.setInsurance(insuranceAddress).then(tx => tx.wait());
+  await runOnce(
+    manifest,
+    "vault.setInsurance",
+    () => vault.setInsurance(insuranceAddress),
+    async () => (await vault.insurance()) === insuranceAddress
+  );
 
   // Deploy Sequencer Uptime Feed Contract
-  const sequencerUptimeFeed = await deployContract("SequencerUptimeFeed");
+  const sequencerUptimeFeed = await deployOnce(manifest, "SequencerUptimeFeed");
   const sequencerUptimeFeedAddress = await sequencerUptimeFeed.getAddress();
 
   // Deploy Oracle
-  const oracle = await deployContract("Oracle", [
+  const oracle = await deployOnce(manifest, "Oracle", [
     sequencerUptimeFeedAddress,
-    constants.global.gracePeriod
+    profile.global.gracePeriod
   ]);
-  await oracle
-    .setOracle(
-      uaAddress,
-      constants.addresses.ORACLES.USDC,
-      constants.global.uaHeartBeat,
-      false
-    )
-    .then(tx => tx.wait());
-  await oracle
-    .setFixedPrice(uaAddress, parseEther("1").toString())
-    .then(tx => tx.wait());
+  await runOnce(
+    manifest,
+    "oracle.setOracle(UA)",
+    () =>
+      oracle.setOracle(
+        uaAddress,
+        profile.addresses.ORACLES.USDC,
+        profile.global.uaHeartBeat,
+        false
+      ),
+    async () =>
+      (await oracle.assetToOracles(uaAddress)).aggregator ===
+      getAddress(profile.addresses.ORACLES.USDC)
+  );
+  await runOnce(
+    manifest,
+    "oracle.setFixedPrice(UA)",
+    () => oracle.setFixedPrice(uaAddress, parseEther("1").toString()),
+    async () =>
+      (await oracle.assetToOracles(uaAddress)).fixedPrice === parseEther("1")
+  );
   const oracleAddress = await oracle.getAddress();
-  await vault.setOracle(oracleAddress).then(tx => tx.wait());
+  await runOnce(
+    manifest,
+    "vault.setOracle",
+    () => vault.setOracle(oracleAddress),
+    async () => (await vault.oracle()) === oracleAddress
+  );
 
   // Deploy ClearingHouse Contract
-  const clearingHouse = await deployContract("ClearingHouse", [
+  const clearingHouse = await deployOnce(manifest, "ClearingHouse", [
     vaultAddress,
     insuranceAddress,
     {
-      minMargin: constants.global.minMargin,
-      minMarginAtCreation: constants.global.minMarginAtCreation,
-      minPositiveOpenNotional: constants.global.minPositiveOpenNotional,
-      liquidationReward: constants.global.liquidationReward,
-      insuranceRatio: constants.global.insuranceRatio,
+      minMargin: profile.global.minMargin,
+      minMarginAtCreation: profile.global.minMarginAtCreation,
+      minPositiveOpenNotional: profile.global.minPositiveOpenNotional,
+      liquidationReward: profile.global.liquidationReward,
+      insuranceRatio: profile.global.insuranceRatio,
       liquidationRewardInsuranceShare:
-        constants.global.liquidationRewardInsuranceShare,
-      liquidationDiscount: constants.global.liquidationDiscount,
-      nonUACollSeizureDiscount: constants.global.nonUACollSeizureDiscount,
-      uaDebtSeizureThreshold: constants.global.uaDebtSeizureThreshold
+        profile.global.liquidationRewardInsuranceShare,
+      liquidationDiscount: profile.global.liquidationDiscount,
+      nonUACollSeizureDiscount: profile.global.nonUACollSeizureDiscount,
+      uaDebtSeizureThreshold: profile.global.uaDebtSeizureThreshold
     }
   ]);
   const clearingHouseAddress = await clearingHouse.getAddress();
-  await vault.setClearingHouse(clearingHouseAddress).then(tx => tx.wait());
-  await insurance.setClearingHouse(clearingHouseAddress).then(tx => tx.wait());
+  await runOnce(
+    manifest,
+    "vault.setClearingHouse",
+    () => vault.setClearingHouse(clearingHouseAddress),
+    async () => (await vault.clearingHouse()) === clearingHouseAddress
+  );
+  await runOnce(
+    manifest,
+    "insurance.setClearingHouse",
+    () => insurance.setClearingHouse(clearingHouseAddress),
+    async () => (await insurance.clearingHouse()) === clearingHouseAddress
+  );
 
   // Deploy CryptoViews Contract
-  const curveCryptoViews = await deployContract("CurveCryptoViews", [
-    constants.addresses.CURVE_MATH
+  const curveCryptoViews = await deployOnce(manifest, "CurveCryptoViews", [
+    profile.addresses.CURVE_MATH
   ]);
   const curveCryptoViewsAddress = await curveCryptoViews.getAddress();
 
   // Deploy ClearingHouseViewer
-  await deployContract("ClearingHouseViewer", [clearingHouseAddress]);
+  await deployOnce(manifest, "ClearingHouseViewer", [clearingHouseAddress]);
 
   // Deploy UAHelper
-  await deployContract("UAHelper", [uaAddress, clearingHouseAddress]);
+  await deployOnce(manifest, "UAHelper", [uaAddress, clearingHouseAddress]);
 
   // Deploy multicall
-  const ownedMulticall = await deployContract("OwnedMulticall3");
+  const ownedMulticall = await deployOnce(manifest, "OwnedMulticall3");
   const ownedMulticallAddress = await ownedMulticall.getAddress();
 
-  const timelockAlias = utils.applyL1ToL2Alias(constants.addresses.L1_TIMELOCK);
-  await ownedMulticall.transferOwnership(timelockAlias);
+  const timelockAlias = getAddress(
+    utils.applyL1ToL2Alias(profile.addresses.L1_TIMELOCK)
+  );
+  await runOnce(
+    manifest,
+    "ownedMulticall.transferOwnership",
+    () => ownedMulticall.transferOwnership(timelockAlias),
+    async () => (await ownedMulticall.owner()) === timelockAlias
+  );
 
   // Deploy PerpMarketFactory
-  const marketFactoryArtifact = await deployer.loadArtifact(
-    "PerpMarketFactory"
-  );
   const vBaseArtifact = await deployer.loadArtifact("VBase");
   const vBaseBytecodeHash = utils.hashBytecode(vBaseArtifact.bytecode);
   const vQuoteArtifact = await deployer.loadArtifact("VQuote");
@@ -103,79 +160,64 @@ export default async function() {
   const perpArtifact = await deployer.loadArtifact("Perpetual");
   const perpBytecodeHash = utils.hashBytecode(perpArtifact.bytecode);
 
-  const marketFactory = await deployer.deploy(
-    marketFactoryArtifact,
+  await deployOnce(
+    manifest,
+    "PerpMarketFactory",
     [
       perpBytecodeHash,
       vBaseBytecodeHash,
       vQuoteBytecodeHash,
-      constants.addresses.CRYPTO_SWAP_FACTORY,
+      profile.addresses.CRYPTO_SWAP_FACTORY,
       curveCryptoViewsAddress,
       clearingHouseAddress,
       ownedMulticallAddress,
-      constants.addresses.EMERGENCY_ADMIN
+      profile.addresses.EMERGENCY_ADMIN
     ],
-    undefined,
-    [vBaseArtifact.bytecode, vQuoteArtifact.bytecode, perpArtifact.bytecode]
-  );
-  console.log("Market Factory deployed at: ", await marketFactory.getAddress());
-
-  // Transfer Ownership
-
-  // UA
-  let governanceRole = await ua.GOVERNANCE();
-  let emergencyAdminRole = await ua.EMERGENCY_ADMIN();
-
-  await ua.grantRole(governanceRole, ownedMulticallAddress);
-  await ua.grantRole(emergencyAdminRole, constants.addresses.EMERGENCY_ADMIN);
-  await ua.renounceRole(governanceRole, wallet.address);
-  await ua.renounceRole(emergencyAdminRole, wallet.address);
-
-  // Vault
-  governanceRole = await vault.GOVERNANCE();
-  emergencyAdminRole = await vault.EMERGENCY_ADMIN();
-
-  await vault.grantRole(governanceRole, ownedMulticallAddress);
-  await vault.grantRole(
-    emergencyAdminRole,
-    constants.addresses.EMERGENCY_ADMIN
-  );
-  await vault.renounceRole(governanceRole, wallet.address);
-  await vault.renounceRole(emergencyAdminRole, wallet.address);
-
-  // Insurance
-  governanceRole = await insurance.GOVERNANCE();
-  emergencyAdminRole = await insurance.EMERGENCY_ADMIN();
-
-  await insurance.grantRole(governanceRole, ownedMulticallAddress);
-  await insurance.grantRole(
-    emergencyAdminRole,
-    constants.addresses.EMERGENCY_ADMIN
-  );
-  await insurance.renounceRole(governanceRole, wallet.address);
-  await insurance.renounceRole(emergencyAdminRole, wallet.address);
-
-  // Oracle
-  governanceRole = await oracle.GOVERNANCE();
-  emergencyAdminRole = await oracle.EMERGENCY_ADMIN();
-
-  await oracle.grantRole(governanceRole, ownedMulticallAddress);
-  await oracle.grantRole(
-    emergencyAdminRole,
-    constants.addresses.EMERGENCY_ADMIN
+    {
+      factoryDeps: [
+        vBaseArtifact.bytecode,
+        vQuoteArtifact.bytecode,
+        perpArtifact.bytecode
+      ]
+    }
   );
-  await oracle.renounceRole(governanceRole, wallet.address);
-  await oracle.renounceRole(emergencyAdminRole, wallet.address);
 
-  // ClearingHouse
-  governanceRole = await clearingHouse.GOVERNANCE();
-  emergencyAdminRole = await clearingHouse.EMERGENCY_ADMIN();
+  writeAddressBook(manifest);
 
-  await clearingHouse.grantRole(governanceRole, ownedMulticallAddress);
-  await clearingHouse.grantRole(
-    emergencyAdminRole,
-    constants.addresses.EMERGENCY_ADMIN
-  );
-  await clearingHouse.renounceRole(governanceRole, wallet.address);
-  await clearingHouse.renounceRole(emergencyAdminRole, wallet.address);
+  // Transfer Ownership
+  const roleHolders = { ua, vault, insurance, oracle, clearingHouse };
+  for (const [name, contract] of Object.entries(roleHolders)) {
+    const governanceRole = await contract.GOVERNANCE();
+    const emergencyAdminRole = await contract.EMERGENCY_ADMIN();
+
+    await runOnce(
+      manifest,
+      `${name}.grantRole(GOVERNANCE)`,
+      () => contract.grantRole(governanceRole, ownedMulticallAddress),
+      () => contract.hasRole(governanceRole, ownedMulticallAddress)
+    );
+    await runOnce(
+      manifest,
+      `${name}.grantRole(EMERGENCY_ADMIN)`,
+      () =>
+        contract.grantRole(
+          emergencyAdminRole,
+          profile.addresses.EMERGENCY_ADMIN
+        ),
+      () =>
+        contract.hasRole(emergencyAdminRole, profile.addresses.EMERGENCY_ADMIN)
+    );
+    await runOnce(
+      manifest,
+      `${name}.renounceRole(GOVERNANCE)`,
+      () => contract.renounceRole(governanceRole, wallet.address),
+      async () => !(await contract.hasRole(governanceRole, wallet.address))
+    );
+    await runOnce(
+      manifest,
+      `${name}.renounceRole(EMERGENCY_ADMIN)`,
+      () => contract.renounceRole(emergencyAdminRole, wallet.address),
+      async () => !(await contract.hasRole(emergencyAdminRole, wallet.address))
+    );
+  }
 }
@@ -0,0 +1,156 @@
+import fs from "fs";
+import path from "path";
+import { Contract, parseEther, parseUnits } from "ethers";
+import { Wallet } from "zksync-ethers";
+import * as hre from "hardhat";
+
+import { getWallet, LOCAL_RICH_WALLETS } from "./utils";
+import { deployOnce, getManifestPath, loadManifest, runOnce } from "./manifest";
+import { writeAddressBook } from "./addresses";
+import { getMarkets } from "./markets";
+import { deployLocalProtocol } from "./devnet";
+
+const LOCAL_NETWORKS = ["inMemoryNode", "dockerizedNode"];
+
+const WAD = 10n ** 18n;
+
+/**
+ * Deploys a complete protocol on a local node in one go: Curve factory and math, the base protocol with mock price
+ * feeds and USDC, and an ETH market deployed directly rather than through the L1 governor. The deployer keeps every
+ * role. Rich wallets are funded with USDC and UA, the deployer seeds the market with liquidity, and every address is
+ * written to `deployments/<network>/devnet.json`. Steps are recorded in the deployment manifest, so a rerun resumes
+ * where a previous one stopped
+ */
+export default async function() {
+  if (!LOCAL_NETWORKS.includes(hre.network.name))
+    throw `⛔️ The devnet can only be deployed on ${LOCAL_NETWORKS.join(
+      " or "
+    )}, not "${hre.network.name}"!`;
+
+  const usdcAmount = parseUnits(process.env.DEVNET_USDC_AMOUNT || "100000", 6);
+  const uaAmount = parseEther(process.env.DEVNET_UA_AMOUNT || "100000");
+  const liquidity = parseEther(process.env.DEVNET_LIQUIDITY || "200000");
+
+  // Defaults to the first rich wallet, which every local node funds
+  const wallet = getWallet(
+    process.env.WALLET_PRIVATE_KEY
+      ? undefined
+      : LOCAL_RICH_WALLETS[0].privateKey
+  );
+  const manifest = await loadManifest(wallet);
+  const deploy = (
+    contract: string,
+    args: any[] = [],
+    options: { key?: string; factoryDeps?: string[] } = {}
+  ) => deployOnce(manifest, contract, args, { ...options, wallet });
+
+  const {
+    usdc,
+    ua,
+    vault,
+    clearingHouse,
+    viewer,
+    idx
+  } = await deployLocalProtocol(wallet, {
+    deploy,
+    run: (step, send, isComplete) => runOnce(manifest, step, send, isComplete),
+    log: console.log
+  });
+  const usdcAddress = await usdc.getAddress();
+  const uaAddress = await ua.getAddress();
+  const vaultAddress = await vault.getAddress();
+  const multicall3 = await deploy("Multicall3");
+  await deploy("UAHelper", [uaAddress, await clearingHouse.getAddress()]);
+  await deploy("OwnedMulticall3");
+  writeAddressBook(manifest);
+
+  console.log("Step 5: Fund the rich wallets with USDC and UA");
+  // Minted UA is backed by USDC, 6 decimals
+  const usdcForUa = uaAmount / 10n ** 12n;
+  // Mints `mintAmount` USDC to the account, `reserveAmount` of which is turned into UA
+  const fund = async (
+    account: Wallet,
+    step: string,
+    mintAmount: bigint,
+    reserveAmount: bigint
+  ) => {
+    await runOnce(manifest, `usdc.mint(${step})`, () =>
+      usdc.mint(account.address, mintAmount)
+    );
+    await runOnce(manifest, `ua.mintWithReserve(${step})`, async () => {
+      await (
+        await (usdc.connect(account) as Contract).approve(
+          uaAddress,
+          reserveAmount
+        )
+      ).wait();
+      return (ua.connect(account) as Contract).mintWithReserve(
+        usdcAddress,
+        reserveAmount
+      );
+    });
+  };
+  for (const { address, privateKey } of LOCAL_RICH_WALLETS) {
+    await fund(
+      getWallet(privateKey),
+      address,
+      usdcAmount + usdcForUa,
+      usdcForUa
+    );
+  }
+
+  // The LP position needs collateral beyond the liquidity it provides, as in the e2e tests
+  console.log("Step 6: Seed the ETHUSD market with liquidity");
+  const collateral = (liquidity * 5n) / 2n;
+  await fund(
+    wallet,
+    "liquidity",
+    collateral / 10n ** 12n,
+    collateral / 10n ** 12n
+  );
+  await runOnce(manifest, "clearingHouse.deposit(liquidity)", async () => {
+    await (await ua.approve(vaultAddress, collateral)).wait();
+    return clearingHouse.deposit(collateral, uaAddress);
+  });
+  await runOnce(
+    manifest,
+    "clearingHouse.provideLiquidity(ETH)",
+    async () =>
+      clearingHouse.provideLiquidity(
+        idx,
+        [liquidity, (liquidity * WAD) / (await viewer.indexPrice(idx))],
+        0
+      ),
+    async () =>
+      (await viewer.getLpPosition(idx, wallet.address)).liquidityBalance > 0n
+  );
+
+  const devnetPath = path.join(
+    path.dirname(getManifestPath(manifest.network)),
+    "devnet.json"
+  );
+  const devnet = {
+    network: manifest.network,
+    chainId: manifest.chainId,
+    deployer: wallet.address,
+    contracts: Object.fromEntries(
+      Object.entries(manifest.contracts).map(([key, record]) => [
+        key,
+        record.address
+      ])
+    ),
+    markets: (await getMarkets(wallet)).map(market => ({
+      ...market,
+      idx: market.idx.toString()
+    })),
+    richWallets: LOCAL_RICH_WALLETS.map(({ address }) => address)
+  };
+  fs.writeFileSync(devnetPath, JSON.stringify(devnet, null, 2) + "\n");
+  console.log(`✅ Devnet addresses written to ${devnetPath}`);
+  console.log(
+    `Set MULTICALL3_ADDRESS=${await multicall3.getAddress()} to run the reports against the devnet`
+  );
+  console.log(
+    `⚠️ The Oracle rejects the ETH price feed a day after its last update, run refresh-devnet-feeds.ts to keep it fresh`
+  );
+}
@@ -0,0 +1,273 @@
+import { Deployer } from "@matterlabs/hardhat-zksync-deploy";
+import {
+  Contract,
+  ContractTransactionResponse,
+  ZeroAddress,
+  parseEther,
+  parseUnits
+} from "ethers";
+import { utils, Wallet } from "zksync-ethers";
+import * as hre from "hardhat";
+
+import constants from "./constants";
+
+/**
+ * How the contracts and transactions of a local deployment are sent, e.g. recorded in the deployment manifest by the
+ * devnet and sent directly by the e2e fixture
+ */
+export type LocalDeploySteps = {
+  deploy: (
+    contract: string,
+    args?: any[],
+    options?: { key?: string; factoryDeps?: string[] }
+  ) => Promise<Contract>;
+  run: (
+    step: string,
+    send: () => Promise<ContractTransactionResponse>,
+    isComplete?: () => Promise<boolean>
+  ) => Promise<void>;
+  log?: (message: string) => void;
+};
+
+export type LocalProtocol = {
+  usdc: Contract;
+  ua: Contract;
+  vault: Contract;
+  insurance: Contract;
+  oracle: Contract;
+  clearingHouse: Contract;
+  viewer: Contract;
+  sequencerUptimeFeed: Contract;
+  /**
+   * Price feeds of UA and of the ETH market. They go stale `heartBeat` seconds after their last `updateAnswer`
+   */
+  usdcAggregator: Contract;
+  ethAggregator: Contract;
+  perpetual: Contract;
+  idx: bigint;
+};
+
+/**
+ * Deploys the Curve factory and math, the base protocol with `USDCMock` and `ChainlinkAggregatorMock` price feeds, and
+ * an ETH market deployed through the PerpMarketFactory by `wallet` rather than the L1 governor. `wallet` keeps every
+ * role
+ */
+export const deployLocalProtocol = async (
+  wallet: Wallet,
+  { deploy, run, log = () => {} }: LocalDeploySteps
+): Promise<LocalProtocol> => {
+  const { global, marketParams } = constants;
+
+  log("Step 1: Deploy the Curve factory and math");
+  const poolImpl = await deploy("CurveCryptoSwap2ETH", [ZeroAddress]);
+  const tokenImpl = await deploy("CurveTokenV5");
+  const gaugeImpl = await deploy("ChildGuage", [ZeroAddress, ZeroAddress]);
+  const cryptoSwapFactory = await deploy("Factory", [
+    wallet.address,
+    await poolImpl.getAddress(),
+    await tokenImpl.getAddress(),
+    await gaugeImpl.getAddress(),
+    ZeroAddress
+  ]);
+  const curveMath = await deploy("CurveMath");
+
+  log("Step 2: Deploy the mocks");
+  const usdc = await deploy("USDCMock", ["USD Coin", "USDC", 6]);
+  const usdcAddress = await usdc.getAddress();
+  const sequencerUptimeFeed = await deploy("SequencerUptimeFeed");
+  const sequencerUptimeFeedAddress = await sequencerUptimeFeed.getAddress();
+  const usdcAggregator = await deploy(
+    "ChainlinkAggregatorMock",
+    [8, parseUnits("1", 8)],
+    { key: "USDCAggregatorMock" }
+  );
+  const ethAggregator = await deploy(
+    "ChainlinkAggregatorMock",
+    [8, parseUnits("2000", 8)],
+    { key: "ETHAggregatorMock" }
+  );
+
+  log("Step 3: Deploy the base protocol");
+  const ua = await deploy("UA", [usdcAddress, global.initialTokenMaxMintCap]);
+  const uaAddress = await ua.getAddress();
+  const vault = await deploy("Vault", [uaAddress]);
+  const vaultAddress = await vault.getAddress();
+  const insurance = await deploy("Insurance", [uaAddress, vaultAddress]);
+  const insuranceAddress = await insurance.getAddress();
+  await run(
+    "vault.setInsurance",
+    () => vault.setInsurance(insuranceAddress),
+    async () => (await vault.insurance()) === insuranceAddress
+  );
+
+  const oracle = await deploy("Oracle", [
+    sequencerUptimeFeedAddress,
+    global.gracePeriod
+  ]);
+  const oracleAddress = await oracle.getAddress();
+  const usdcAggregatorAddress = await usdcAggregator.getAddress();
+  await run(
+    "oracle.setOracle(UA)",
+    () =>
+      oracle.setOracle(
+        uaAddress,
+        usdcAggregatorAddress,
+        global.uaHeartBeat,
+        false
+      ),
+    async () =>
+      (await oracle.assetToOracles(uaAddress)).aggregator ===
+      usdcAggregatorAddress
+  );
+  await run(
+    "oracle.setFixedPrice(UA)",
+    () => oracle.setFixedPrice(uaAddress, parseEther("1")),
+    async () =>
+      (await oracle.assetToOracles(uaAddress)).fixedPrice === parseEther("1")
+  );
+  await run(
+    "vault.setOracle",
+    () => vault.setOracle(oracleAddress),
+    async () => (await vault.oracle()) === oracleAddress
+  );
+
+  const clearingHouse = await deploy("ClearingHouse", [
+    vaultAddress,
+    insuranceAddress,
+    {
+      minMargin: global.minMargin,
+      minMarginAtCreation: global.minMarginAtCreation,
+      minPositiveOpenNotional: global.minPositiveOpenNotional,
+      liquidationReward: global.liquidationReward,
+      insuranceRatio: global.insuranceRatio,
+      liquidationRewardInsuranceShare: global.liquidationRewardInsuranceShare,
+      liquidationDiscount: global.liquidationDiscount,
+      nonUACollSeizureDiscount: global.nonUACollSeizureDiscount,
+      uaDebtSeizureThreshold: global.uaDebtSeizureThreshold
+    }
+  ]);
+  const clearingHouseAddress = await clearingHouse.getAddress();
+  await run(
+    "vault.setClearingHouse",
+    () => vault.setClearingHouse(clearingHouseAddress),
+    async () => (await vault.clearingHouse()) === clearingHouseAddress
+  );
+  await run(
+    "insurance.setClearingHouse",
+    () => insurance.setClearingHouse(clearingHouseAddress),
+    async () => (await insurance.clearingHouse()) === clearingHouseAddress
+  );
+
+  const curveCryptoViews = await deploy("CurveCryptoViews", [
+    await curveMath.getAddress()
+  ]);
+  const viewer = await deploy("ClearingHouseViewer", [clearingHouseAddress]);
+
+  const [perpArtifact, vBaseArtifact, vQuoteArtifact] = await Promise.all(
+    ["Perpetual", "VBase", "VQuote"].map(name =>
+      new Deployer(hre, wallet).loadArtifact(name)
+    )
+  );
+  const factory = await deploy(
+    "PerpMarketFactory",
+    [
+      utils.hashBytecode(perpArtifact.bytecode),
+      utils.hashBytecode(vBaseArtifact.bytecode),
+      utils.hashBytecode(vQuoteArtifact.bytecode),
+      await cryptoSwapFactory.getAddress(),
+      await curveCryptoViews.getAddress(),
+      clearingHouseAddress,
+      wallet.address,
+      wallet.address
+    ],
+    {
+      factoryDeps: [
+        perpArtifact.bytecode,
+        vBaseArtifact.bytecode,
+        vQuoteArtifact.bytecode
+      ]
+    }
+  );
+  const factoryAddress = await factory.getAddress();
+
+  // Same calls as create-deploy-market-proposal, sent by the wallet instead of the L1 governor
+  log("Step 4: Deploy the ETHUSD market");
+  const governanceRole = await clearingHouse.GOVERNANCE();
+  await run(
+    "clearingHouse.grantRole(GOVERNANCE, PerpMarketFactory)",
+    () => clearingHouse.grantRole(governanceRole, factoryAddress),
+    async () =>
+      (await clearingHouse.getNumMarkets()) > 0n ||
+      (await clearingHouse.hasRole(governanceRole, factoryAddress))
+  );
+  const eth = marketParams.ETH;
+  await run(
+    "perpMarketFactory.deployNewMarket(ETH)",
+    async () =>
+      factory.deployNewMarket(
+        await ethAggregator.getAddress(),
+        sequencerUptimeFeedAddress,
+        "vETH base token",
+        "vETH",
+        "ETHUSD",
+        "ETHUSD",
+        {
+          riskWeight: eth.riskWeight,
+          maxLiquidityProvided: eth.maxLiquidityProvided,
+          twapFrequency: eth.twapFrequency,
+          sensitivity: eth.sensitivity,
+          maxBlockTradeAmount: eth.maxBlockTradeAmount,
+          insuranceFee: eth.insuranceFee,
+          lpDebtCoef: eth.lpDebtCoef,
+          lockPeriod: eth.lockPeriod,
+          heartBeat: eth.heartBeat,
+          gracePeriod: eth.gracePeriod,
+          a: eth.A,
+          gamma: eth.gamma,
+          midFee: eth.mid_fee,
+          outFee: eth.out_fee,
+          allowedExtraProfit: eth.allowed_extra_profit,
+          feeGamma: eth.fee_gamma,
+          adjustmentStep: eth.adjustment_step,
+          adminFee: eth.admin_fee,
+          maHalfTime: eth.ma_half_time
+        }
+      ),
+    async () => (await clearingHouse.getNumMarkets()) > 0n
+  );
+  await run(
+    "clearingHouse.revokeRole(GOVERNANCE, PerpMarketFactory)",
+    () => clearingHouse.revokeRole(governanceRole, factoryAddress),
+    async () => !(await clearingHouse.hasRole(governanceRole, factoryAddress))
+  );
+  const idx: bigint = await clearingHouse.id(0);
+  const perpetual = new Contract(
+    await clearingHouse.perpetuals(idx),
+    perpArtifact.abi,
+    wallet
+  );
+
+  return {
+    usdc,
+    ua,
+    vault,
+    insurance,
+    oracle,
+    clearingHouse,
+    viewer,
+    sequencerUptimeFeed,
+    usdcAggregator,
+    ethAggregator,
+    perpetual,
+    idx
+  };
+};
+
+/**
+ * Posts the latest answer of a mock price feed again, or `answer` if given, so that `Oracle.getPrice` doesn't reject
+ * it as stale
+ */
+export const refreshPriceFeed = async (aggregator: Contract, answer?: bigint) =>
+  (
+    await aggregator.updateAnswer(answer ?? (await aggregator.latestAnswer()))
+  ).wait();
@@ -0,0 +1,167 @@
+import fs from "fs";
+import readline from "readline/promises";
+import { Contract } from "ethers";
+
+import { getProvider, getWallet } from "./utils";
+import { getInterface } from "./abi";
+import { getNetworkProfile } from "./networks";
+import { renderTable } from "./format";
+import {
+  buildSafeBatch,
+  EmergencyCall,
+  EmergencyOperation,
+  encodeEmergencyCall,
+  getPauseStates,
+  PauseState
+} from "./emergency";
+
+const OPERATIONS: [EmergencyOperation, string][] = [
+  ["pause", "EMERGENCY_PAUSE"],
+  ["unpause", "EMERGENCY_UNPAUSE"],
+  ["pauseTradingExpansion", "EMERGENCY_PAUSE_EXPANSION"],
+  ["resumeTradingExpansion", "EMERGENCY_RESUME_EXPANSION"]
+];
+
+const renderPauseStates = (states: PauseState[]) =>
+  renderTable(
+    ["Contract", "Market id", "Address", "Paused", "Trading expansion"],
+    states.map(state => [
+      state.name,
+      state.idx?.toString() ?? "",
+      state.address,
+      state.paused ? "yes" : "no",
+      state.tradingExpansionAllowed === undefined
+        ? ""
+        : state.tradingExpansionAllowed
+        ? "allowed"
+        : "paused"
+    ])
+  );
+
+/**
+ * Selects the contracts listed in `value`, by name ("ClearingHouse", "UA" or the base currency of a market), or
+ * all of them with "all". Only markets are selected for the trading expansion operations
+ */
+const selectTargets = (
+  states: PauseState[],
+  operation: EmergencyOperation,
+  variable: string,
+  value: string
+) => {
+  const candidates = operation.endsWith("TradingExpansion")
+    ? states.filter(state => state.idx !== undefined)
+    : states;
+  const names = value
+    .split(",")
+    .map(name => name.trim().toUpperCase())
+    .filter(name => name);
+  if (names.includes("ALL")) return candidates;
+
+  return names.map(name => {
+    const state = candidates.find(
+      candidate => candidate.name.toUpperCase() === name
+    );
+    if (!state)
+      throw `⛔️ ${variable} lists "${name}", which isn't one of ${candidates
+        .map(candidate => candidate.name)
+        .join(", ")}!`;
+    return state;
+  });
+};
+
+/**
+ * Shows whether the ClearingHouse, UA and each market are paused, then pauses or unpauses those listed in
+ * EMERGENCY_PAUSE, EMERGENCY_UNPAUSE, EMERGENCY_PAUSE_EXPANSION and EMERGENCY_RESUME_EXPANSION. The transactions are
+ * sent by the wallet once confirmed, or written to EMERGENCY_SAFE_FILE as a Safe Transaction Builder batch
+ */
+export default async function() {
+  const provider = getProvider();
+  const states = await getPauseStates(provider);
+  console.log(renderPauseStates(states));
+
+  const selections = OPERATIONS.map(([operation, variable]) => ({
+    operation,
+    targets: process.env[variable]
+      ? selectTargets(states, operation, variable, process.env[variable]!)
+      : []
+  }));
+  // Operations come in opposite pairs: pause/unpause and pause/resume trading expansion
+  for (let i = 0; i < selections.length; i += 2) {
+    const conflict = selections[i].targets.find(target =>
+      selections[i + 1].targets.includes(target)
+    );
+    if (conflict)
+      throw `⛔️ ${conflict.name} is selected for both ${
+        selections[i].operation
+      } and ${selections[i + 1].operation}!`;
+  }
+
+  const calls: EmergencyCall[] = [];
+  for (const { operation, targets } of selections) {
+    for (const state of targets) {
+      const call = await encodeEmergencyCall(state, operation);
+      if (call) calls.push(call);
+      else console.log(`Skip ${operation} of ${state.name}, already done`);
+    }
+  }
+  if (!calls.length) {
+    console.log("\nNothing to change");
+    return;
+  }
+
+  console.log(`\n${calls.length} call(s) from the EMERGENCY_ADMIN:`);
+  calls.forEach(call => console.log(` - ${call.description}`));
+
+  if (process.env.EMERGENCY_SAFE_FILE) {
+    const batch = buildSafeBatch(
+      (await provider.getNetwork()).chainId,
+      getNetworkProfile().addresses.EMERGENCY_ADMIN,
+      calls,
+      "Increment emergency batch"
+    );
+    fs.writeFileSync(
+      process.env.EMERGENCY_SAFE_FILE,
+      JSON.stringify(batch, null, 2) + "\n"
+    );
+    console.log(
+      `✅ Safe Transaction Builder batch written to ${process.env.EMERGENCY_SAFE_FILE}`
+    );
+    return;
+  }
+
+  const wallet = getWallet();
+  for (const call of calls) {
+    const contract = new Contract(
+      call.to,
+      await getInterface(call.contract),
+      provider
+    );
+    const emergencyAdminRole: string = await contract.EMERGENCY_ADMIN();
+    if (!(await contract.hasRole(emergencyAdminRole, wallet.address)))
+      throw `⛔️ ${wallet.address} isn't EMERGENCY_ADMIN of ${call.name}, set EMERGENCY_SAFE_FILE to build a batch for the emergency admin Safe instead!`;
+  }
+  if (process.env.DRY_RUN === "true") return;
+
+  if (process.env.EMERGENCY_CONFIRM !== "true") {
+    const prompt = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout
+    });
+    const answer = await prompt.question(
+      `Send ${calls.length} transaction(s) from ${wallet.address}? Type "yes" to confirm: `
+    );
+    prompt.close();
+    if (answer.trim() !== "yes") {
+      console.log("Aborted");
+      return;
+    }
+  }
+
+  for (const call of calls) {
+    const receipt = await (
+      await wallet.sendTransaction({ to: call.to, data: call.data })
+    ).wait();
+    console.log(`✅ ${call.description} in ${receipt!.hash}`);
+  }
+  console.log("\n" + renderPauseStates(await getPauseStates(provider)));
+}
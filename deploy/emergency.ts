@@ -0,0 +1,158 @@
+import { Contract, ContractRunner, ZeroAddress } from "ethers";
+
+import { getInterface } from "./abi";
+import { getProtocolAddresses } from "./addresses";
+import { getMarkets } from "./markets";
+
+/**
+ * Contract the EMERGENCY_ADMIN can pause. `name` is "ClearingHouse", "UA" or the base currency of a market, which is
+ * also how the scripts select it
+ */
+export type PauseState = {
+  name: string;
+  /**
+   * Artifact of the contract
+   */
+  contract: "ClearingHouse" | "UA" | "Perpetual";
+  address: string;
+  paused: boolean;
+  /**
+   * Whether positions can be opened or extended, markets only
+   */
+  tradingExpansionAllowed?: boolean;
+  /**
+   * Market id, markets only
+   */
+  idx?: bigint;
+};
+
+export type EmergencyOperation =
+  | "pause"
+  | "unpause"
+  | "pauseTradingExpansion"
+  | "resumeTradingExpansion";
+
+export type EmergencyCall = {
+  name: string;
+  contract: PauseState["contract"];
+  to: string;
+  data: string;
+  description: string;
+};
+
+/**
+ * Reads whether the ClearingHouse, UA and each market are paused, along with whether trading expansion is allowed on
+ * each market. Settled markets can't be paused anymore and are left out
+ */
+export const getPauseStates = async (
+  runner: ContractRunner
+): Promise<PauseState[]> => {
+  const addresses = await getProtocolAddresses("CLEARING_HOUSE", "UA");
+  const clearingHouse = new Contract(
+    addresses.CLEARING_HOUSE,
+    await getInterface("ClearingHouse"),
+    runner
+  );
+  const ua = new Contract(addresses.UA, await getInterface("UA"), runner);
+
+  const states: PauseState[] = [
+    {
+      name: "ClearingHouse",
+      contract: "ClearingHouse",
+      address: addresses.CLEARING_HOUSE,
+      paused: await clearingHouse.paused()
+    },
+    {
+      name: "UA",
+      contract: "UA",
+      address: addresses.UA,
+      paused: await ua.paused()
+    }
+  ];
+  for (const market of await getMarkets(runner)) {
+    // PerpSettlement has no vBase
+    if (market.vBase === ZeroAddress) continue;
+
+    const perpetual = new Contract(
+      market.perpetual,
+      await getInterface("Perpetual"),
+      runner
+    );
+    const vBase = new Contract(
+      market.vBase,
+      await getInterface("VBase"),
+      runner
+    );
+    states.push({
+      name: (await vBase.symbol()).replace(/^v/, ""),
+      contract: "Perpetual",
+      address: market.perpetual,
+      idx: market.idx,
+      paused: await perpetual.paused(),
+      tradingExpansionAllowed: await perpetual.isTradingExpansionAllowed()
+    });
+  }
+  return states;
+};
+
+/**
+ * Encodes the call applying `operation` to `state`, none if it is already in the requested state
+ */
+export const encodeEmergencyCall = async (
+  state: PauseState,
+  operation: EmergencyOperation
+): Promise<EmergencyCall | undefined> => {
+  const contractInterface = await getInterface(state.contract);
+  const call = (method: string, args: any[] = []) => ({
+    name: state.name,
+    contract: state.contract,
+    to: state.address,
+    data: contractInterface.encodeFunctionData(method, args),
+    description: `${state.name}.${method}(${args.join(", ")})`
+  });
+
+  switch (operation) {
+    case "pause":
+      return state.paused ? undefined : call("pause");
+    case "unpause":
+      return state.paused ? call("unpause") : undefined;
+    case "pauseTradingExpansion":
+    case "resumeTradingExpansion": {
+      if (state.contract !== "Perpetual")
+        throw `⛔️ ${state.name} isn't a market, only markets can pause trading expansion!`;
+      // Despite its name, the argument of `toggleTradingExpansionPause` is the new value of `isTradingExpansionAllowed`
+      const allow = operation === "resumeTradingExpansion";
+      return state.tradingExpansionAllowed === allow
+        ? undefined
+        : call("toggleTradingExpansionPause", [allow]);
+    }
+  }
+};
+
+/**
+ * Builds a batch importable in the Transaction Builder app of a Safe
+ */
+export const buildSafeBatch = (
+  chainId: bigint,
+  safeAddress: string,
+  calls: EmergencyCall[],
+  name: string
+) => ({
+  version: "1.0",
+  chainId: chainId.toString(),
+  createdAt: Date.now(),
+  meta: {
+    name,
+    description: calls.map(call => call.description).join("\n"),
+    txBuilderVersion: "1.16.5",
+    createdFromSafeAddress: safeAddress,
+    createdFromOwnerAddress: ""
+  },
+  transactions: calls.map(call => ({
+    to: call.to,
+    value: "0",
+    data: call.data,
+    contractMethod: null,
+    contractInputsValues: null
+  }))
+});
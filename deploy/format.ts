@@ -0,0 +1,27 @@
+import { formatUnits } from "ethers";
+
+/**
+ * Formats a fixed point amount, 18 decimals by default
+ */
+export const formatAmount = (value: bigint, decimals = 18) =>
+  formatUnits(value, decimals);
+
+/**
+ * Renders rows as a plain text table, with columns padded to their widest cell
+ */
+export const renderTable = (headers: string[], rows: string[][]) => {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map(row => (row[column] ?? "").length))
+  );
+  const renderRow = (row: string[]) =>
+    widths
+      .map((width, column) => (row[column] ?? "").padEnd(width))
+      .join("  ")
+      .trimEnd();
+
+  return [
+    renderRow(headers),
+    renderRow(widths.map(width => "-".repeat(width))),
+    ...rows.map(renderRow)
+  ].join("\n");
+};
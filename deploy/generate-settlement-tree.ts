@@ -0,0 +1,76 @@
+import fs from "fs";
+
+import { getProtocolAddresses } from "./addresses";
+import { getProvider } from "./utils";
+import {
+  generateSettlement,
+  getSettlementFilePath,
+  writeSettlementFile
+} from "./settlement";
+
+export default async function() {
+  if (!process.env.SETTLEMENT_MARKETS) {
+    throw "⛔️ Markets to settle (SETTLEMENT_MARKETS) weren't found in .env file!";
+  }
+  const idxs = process.env.SETTLEMENT_MARKETS.split(",").map(idx =>
+    BigInt(idx.trim())
+  );
+
+  const provider = getProvider();
+  const block = process.env.SETTLEMENT_BLOCK
+    ? Number(process.env.SETTLEMENT_BLOCK)
+    : await provider.getBlockNumber();
+  const addresses = await getProtocolAddresses(
+    "CLEARING_HOUSE",
+    "CLEARING_HOUSE_VIEWER"
+  );
+
+  console.log(
+    `Read the PnL of markets ${idxs.join(
+      ", "
+    )} at block ${block} and build the merkle tree`
+  );
+  const settlement = await generateSettlement(
+    provider,
+    addresses,
+    idxs,
+    block,
+    process.env.SETTLEMENT_FROM_BLOCK
+      ? Number(process.env.SETTLEMENT_FROM_BLOCK)
+      : undefined
+  );
+  console.log(
+    ` - ${
+      Object.keys(settlement.accounts).length
+    } account(s) with an open position, root ${settlement.root}`
+  );
+
+  const settlementFile =
+    process.env.SETTLEMENT_FILE || getSettlementFilePath(block.toString());
+  writeSettlementFile(settlementFile, settlement);
+  console.log(`Settlement written to ${settlementFile}`);
+
+  // The root of an already deployed PerpSettlement can only be replaced by governance
+  if (process.env.SETTLEMENT_CONTRACT) {
+    const proposalFile = settlementFile.replace(/\.json$/, "-proposal.json");
+    const proposal = {
+      description: `set the settlement merkle root of markets ${idxs.join(
+        ", "
+      )} at block ${block}`,
+      actions: [
+        {
+          target: {
+            contract: "PerpSettlement",
+            address: process.env.SETTLEMENT_CONTRACT
+          },
+          method: "setMerkleRoot",
+          args: [settlement.root]
+        }
+      ]
+    };
+    fs.writeFileSync(proposalFile, JSON.stringify(proposal, null, 2) + "\n");
+    console.log(
+      `setMerkleRoot proposal written to ${proposalFile}, submit it with PROPOSAL_FILE=${proposalFile} npm run propose`
+    );
+  }
+}
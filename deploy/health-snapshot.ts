@@ -0,0 +1,49 @@
+import fs from "fs";
+
+import { getProvider } from "./utils";
+import { getProtocolHealth, renderPrometheus } from "./health";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export default async function() {
+  const format = process.env.HEALTH_FORMAT || "json";
+  if (format !== "json" && format !== "prometheus")
+    throw `⛔️ HEALTH_FORMAT must be "json" or "prometheus", not "${format}"!`;
+  const provider = getProvider();
+
+  const snapshot = async () => {
+    const health = await getProtocolHealth(
+      provider,
+      process.env.HEALTH_BLOCK ? Number(process.env.HEALTH_BLOCK) : "latest"
+    );
+    const output =
+      format === "json"
+        ? JSON.stringify(
+            health,
+            (_key, value) =>
+              typeof value === "bigint" ? value.toString() : value,
+            2
+          )
+        : renderPrometheus(health);
+
+    const file = process.env.REPORT_FILE;
+    if (!file) {
+      console.log(output);
+      return;
+    }
+    // Renamed into place so that a scraper never reads a partially written file
+    fs.writeFileSync(`${file}.tmp`, output + "\n");
+    fs.renameSync(`${file}.tmp`, file);
+    console.log(`Snapshot of block ${health.block} written to ${file}`);
+  };
+
+  const pollInterval = Number(process.env.HEALTH_POLL_INTERVAL || "0");
+  if (pollInterval === 0) {
+    await snapshot();
+    return;
+  }
+  for (;;) {
+    await snapshot();
+    await sleep(pollInterval);
+  }
+}
@@ -0,0 +1,494 @@
+import { BlockTag, Contract, Interface, Provider, Result } from "ethers";
+
+import { getInterface } from "./abi";
+import { getProtocolAddresses } from "./addresses";
+import { formatAmount } from "./format";
+import { multicallRead } from "./multicall";
+
+const WAD = 10n ** 18n;
+
+// Prices, amounts and ratios are 18 decimals unless stated otherwise
+export type MarketHealth = {
+  idx: bigint;
+  perpetual: string;
+  paused: boolean;
+  globalPosition: {
+    timeOfLastTrade: bigint;
+    timeOfLastTwapUpdate: bigint;
+    cumFundingRate: bigint;
+    totalQuoteProvided: bigint;
+    totalBaseProvided: bigint;
+    cumFundingPerLpToken: bigint;
+    traderLongs: bigint;
+    traderShorts: bigint;
+  };
+  /**
+   * Supply of LP tokens of the Curve pool
+   */
+  totalLiquidityProvided: bigint;
+  /**
+   * Cap on `totalQuoteProvided`
+   */
+  maxLiquidityProvided: bigint;
+  /**
+   * Share of `maxLiquidityProvided` in use
+   */
+  liquidityUsage: bigint;
+  marketPrice: bigint;
+  /**
+   * Undefined when `Oracle.getPrice` reverts, i.e. the feed is stale or the sequencer is down or in its grace period
+   */
+  indexPrice?: bigint;
+  /**
+   * Relative deviation of the market price from the index price, undefined along with the index price
+   */
+  priceSpread?: bigint;
+  marketTwap: bigint;
+  oracleTwap: bigint;
+  /**
+   * Relative deviation of the market TWAP from the oracle TWAP, which drives the funding rate
+   */
+  twapSpread: bigint;
+};
+
+export type CollateralHealth = {
+  tokenIdx: bigint;
+  asset: string;
+  symbol: string;
+  /**
+   * Decimals of the asset, the Vault normalizes `currentAmount` and `maxAmount` to 18 decimals
+   */
+  decimals: number;
+  currentAmount: bigint;
+  maxAmount: bigint;
+  /**
+   * Share of `maxAmount` deposited
+   */
+  usage: bigint;
+  weight: bigint;
+};
+
+export type ProtocolHealth = {
+  block: number;
+  /**
+   * Unix timestamp of the block, in seconds
+   */
+  timestamp: number;
+  /**
+   * Undiscounted value of the collaterals held by the Vault, in USD. Undefined when `Oracle.getPrice` reverts for
+   * one of the collaterals
+   */
+  totalValueLocked?: bigint;
+  insuranceBalance: bigint;
+  /**
+   * Debt the Insurance couldn't cover, repaid first out of new insurance fees
+   */
+  systemBadDebt: bigint;
+  markets: MarketHealth[];
+  collaterals: CollateralHealth[];
+};
+
+const ERC20 = new Interface([
+  "function symbol() view returns (string)",
+  "function balanceOf(address) view returns (uint256)"
+]);
+
+const ratio = (numerator: bigint, denominator: bigint) =>
+  denominator === 0n ? 0n : (numerator * WAD) / denominator;
+
+/**
+ * Reads a point in time snapshot of the protocol: value locked, insurance coverage, open interest, liquidity,
+ * prices and collateral caps. Reads are batched through Multicall3, one batch per level of dependency
+ */
+export const getProtocolHealth = async (
+  provider: Provider,
+  blockTag: BlockTag = "latest"
+): Promise<ProtocolHealth> => {
+  const addresses = await getProtocolAddresses(
+    "CLEARING_HOUSE",
+    "VAULT",
+    "INSURANCE",
+    "UA"
+  );
+  const clearingHouse = new Contract(
+    addresses.CLEARING_HOUSE,
+    await getInterface("ClearingHouse"),
+    provider
+  );
+  const vault = new Contract(
+    addresses.VAULT,
+    await getInterface("Vault"),
+    provider
+  );
+  const insurance = new Contract(
+    addresses.INSURANCE,
+    await getInterface("Insurance"),
+    provider
+  );
+  const ua = new Contract(addresses.UA, ERC20, provider);
+  const perpetualInterface = await getInterface("Perpetual");
+  const { number: block, timestamp } = (await provider.getBlock(blockTag))!;
+
+  // Reads going through `Oracle.getPrice` are allowed to fail, so that a stale feed or a sequencer outage only
+  // leaves out the values depending on it
+  const [
+    numMarkets,
+    numCollaterals,
+    totalValueLocked,
+    insuranceBalance,
+    systemBadDebt
+  ] = (
+    await multicallRead(
+      provider,
+      [
+        { contract: clearingHouse, method: "getNumMarkets" },
+        { contract: vault, method: "getNumberOfCollaterals" },
+        { contract: vault, method: "getTotalValueLocked", allowFailure: true },
+        { contract: ua, method: "balanceOf", args: [addresses.INSURANCE] },
+        { contract: insurance, method: "systemBadDebt" }
+      ],
+      block
+    )
+  ).map(result => result?.[0]) as [
+    bigint,
+    bigint,
+    bigint | undefined,
+    ...bigint[]
+  ];
+
+  const marketIndexes = [...Array(Number(numMarkets)).keys()];
+  const tokenIndexes = [...Array(Number(numCollaterals)).keys()].map(BigInt);
+  const listing = await multicallRead(
+    provider,
+    [
+      ...marketIndexes.map(i => ({
+        contract: clearingHouse,
+        method: "id",
+        args: [i]
+      })),
+      ...tokenIndexes.map(tokenIdx => ({
+        contract: vault,
+        method: "getWhiteListedCollateral",
+        args: [tokenIdx]
+      }))
+    ],
+    block
+  );
+  const idxs = listing
+    .slice(0, marketIndexes.length)
+    .map(result => result![0] as bigint);
+  const collaterals = listing
+    .slice(marketIndexes.length)
+    .map(result => result![0] as Result);
+
+  const perpetualsAndSymbols = await multicallRead(
+    provider,
+    [
+      ...idxs.map(idx => ({
+        contract: clearingHouse,
+        method: "perpetuals",
+        args: [idx]
+      })),
+      ...collaterals.map(collateral => ({
+        contract: new Contract(collateral.asset, ERC20, provider),
+        method: "symbol"
+      }))
+    ],
+    block
+  );
+  const perpetuals = perpetualsAndSymbols
+    .slice(0, idxs.length)
+    .map(result => new Contract(result![0], perpetualInterface, provider));
+  const symbols = perpetualsAndSymbols
+    .slice(idxs.length)
+    .map(result => result![0] as string);
+
+  const perpetualMethods = [
+    "paused",
+    "getGlobalPosition",
+    "getTotalLiquidityProvided",
+    "maxLiquidityProvided",
+    "marketPrice",
+    "indexPrice",
+    "marketTwap",
+    "oracleTwap"
+  ];
+  const marketResults = await multicallRead(
+    provider,
+    perpetuals.flatMap(contract =>
+      perpetualMethods.map(method => ({
+        contract,
+        method,
+        allowFailure: method === "indexPrice"
+      }))
+    ),
+    block
+  );
+
+  const markets: MarketHealth[] = idxs.map((idx, i) => {
+    const [
+      paused,
+      globalPosition,
+      totalLiquidityProvided,
+      maxLiquidityProvided,
+      marketPrice,
+      indexPrice,
+      marketTwap,
+      oracleTwap
+    ] = marketResults
+      .slice(i * perpetualMethods.length, (i + 1) * perpetualMethods.length)
+      .map(result => result?.[0]) as [
+      boolean,
+      Result,
+      bigint,
+      bigint,
+      bigint,
+      bigint | undefined,
+      bigint,
+      bigint
+    ];
+
+    return {
+      idx,
+      perpetual: perpetuals[i].target as string,
+      paused,
+      globalPosition: {
+        timeOfLastTrade: globalPosition.timeOfLastTrade,
+        timeOfLastTwapUpdate: globalPosition.timeOfLastTwapUpdate,
+        cumFundingRate: globalPosition.cumFundingRate,
+        totalQuoteProvided: globalPosition.totalQuoteProvided,
+        totalBaseProvided: globalPosition.totalBaseProvided,
+        cumFundingPerLpToken: globalPosition.cumFundingPerLpToken,
+        traderLongs: globalPosition.traderLongs,
+        traderShorts: globalPosition.traderShorts
+      },
+      totalLiquidityProvided,
+      maxLiquidityProvided,
+      liquidityUsage: ratio(
+        globalPosition.totalQuoteProvided,
+        maxLiquidityProvided
+      ),
+      marketPrice,
+      indexPrice,
+      priceSpread:
+        indexPrice === undefined
+          ? undefined
+          : ratio(marketPrice - indexPrice, indexPrice),
+      marketTwap,
+      oracleTwap,
+      twapSpread: ratio(marketTwap - oracleTwap, oracleTwap)
+    };
+  });
+
+  return {
+    block,
+    timestamp,
+    totalValueLocked,
+    insuranceBalance,
+    systemBadDebt,
+    markets,
+    collaterals: collaterals.map((collateral, i) => ({
+      tokenIdx: tokenIndexes[i],
+      asset: collateral.asset,
+      symbol: symbols[i],
+      decimals: Number(collateral.decimals),
+      currentAmount: collateral.currentAmount,
+      maxAmount: collateral.maxAmount,
+      usage: ratio(collateral.currentAmount, collateral.maxAmount),
+      weight: collateral.weight
+    }))
+  };
+};
+
+type Metric = {
+  name: string;
+  help: string;
+  samples: { labels?: Record<string, string>; value?: string }[];
+};
+
+/**
+ * Renders the snapshot in the Prometheus text exposition format, with fixed point values as decimals. Values which
+ * couldn't be read are left out, the `_up` gauges tell which reads through the Oracle failed
+ */
+export const renderPrometheus = (health: ProtocolHealth) => {
+  const marketMetric = (
+    name: string,
+    help: string,
+    value: (market: MarketHealth) => string | undefined
+  ): Metric => ({
+    name,
+    help,
+    samples: health.markets.map(market => ({
+      labels: { idx: market.idx.toString(), perpetual: market.perpetual },
+      value: value(market)
+    }))
+  });
+  const collateralMetric = (
+    name: string,
+    help: string,
+    value: (collateral: CollateralHealth) => string
+  ): Metric => ({
+    name,
+    help,
+    samples: health.collaterals.map(collateral => ({
+      labels: {
+        token_idx: collateral.tokenIdx.toString(),
+        symbol: collateral.symbol
+      },
+      value: value(collateral)
+    }))
+  });
+
+  const metrics: Metric[] = [
+    {
+      name: "increment_block_number",
+      help: "Block the snapshot was taken at",
+      samples: [{ value: health.block.toString() }]
+    },
+    {
+      name: "increment_block_timestamp_seconds",
+      help: "Timestamp of the block the snapshot was taken at",
+      samples: [{ value: health.timestamp.toString() }]
+    },
+    {
+      name: "increment_total_value_locked_up",
+      help: "1 if the value locked could be read, 0 if the Oracle reverted",
+      samples: [{ value: health.totalValueLocked === undefined ? "0" : "1" }]
+    },
+    {
+      name: "increment_total_value_locked_usd",
+      help: "Undiscounted value of the collaterals held by the Vault",
+      samples: [
+        {
+          value:
+            health.totalValueLocked === undefined
+              ? undefined
+              : formatAmount(health.totalValueLocked)
+        }
+      ]
+    },
+    {
+      name: "increment_insurance_balance_ua",
+      help: "UA held by the Insurance",
+      samples: [{ value: formatAmount(health.insuranceBalance) }]
+    },
+    {
+      name: "increment_system_bad_debt_ua",
+      help: "Debt the Insurance couldn't cover",
+      samples: [{ value: formatAmount(health.systemBadDebt) }]
+    },
+    marketMetric("increment_market_paused", "1 if the market is paused", m =>
+      m.paused ? "1" : "0"
+    ),
+    marketMetric(
+      "increment_market_trader_longs",
+      "Open interest of traders on the long side, in vBase",
+      m => formatAmount(m.globalPosition.traderLongs)
+    ),
+    marketMetric(
+      "increment_market_trader_shorts",
+      "Open interest of traders on the short side, in vBase",
+      m => formatAmount(m.globalPosition.traderShorts)
+    ),
+    marketMetric(
+      "increment_market_total_quote_provided",
+      "vQuote provided by LPs",
+      m => formatAmount(m.globalPosition.totalQuoteProvided)
+    ),
+    marketMetric(
+      "increment_market_total_base_provided",
+      "vBase provided by LPs",
+      m => formatAmount(m.globalPosition.totalBaseProvided)
+    ),
+    marketMetric(
+      "increment_market_cum_funding_rate",
+      "Cumulative funding rate",
+      m => formatAmount(m.globalPosition.cumFundingRate)
+    ),
+    marketMetric(
+      "increment_market_last_twap_update_seconds",
+      "Timestamp of the last TWAP update",
+      m => m.globalPosition.timeOfLastTwapUpdate.toString()
+    ),
+    marketMetric(
+      "increment_market_liquidity_provided",
+      "Supply of LP tokens of the Curve pool",
+      m => formatAmount(m.totalLiquidityProvided)
+    ),
+    marketMetric(
+      "increment_market_max_liquidity_provided",
+      "Cap on the vQuote provided by LPs",
+      m => formatAmount(m.maxLiquidityProvided)
+    ),
+    marketMetric(
+      "increment_market_liquidity_usage_ratio",
+      "Share of the liquidity cap in use",
+      m => formatAmount(m.liquidityUsage)
+    ),
+    marketMetric("increment_market_price", "Market price of vBase", m =>
+      formatAmount(m.marketPrice)
+    ),
+    marketMetric(
+      "increment_market_index_price_up",
+      "1 if the index price could be read, 0 if the Oracle reverted",
+      m => (m.indexPrice === undefined ? "0" : "1")
+    ),
+    marketMetric("increment_market_index_price", "Oracle price of vBase", m =>
+      m.indexPrice === undefined ? undefined : formatAmount(m.indexPrice)
+    ),
+    marketMetric(
+      "increment_market_price_spread_ratio",
+      "Relative deviation of the market price from the index price",
+      m =>
+        m.priceSpread === undefined ? undefined : formatAmount(m.priceSpread)
+    ),
+    marketMetric("increment_market_twap", "Market TWAP", m =>
+      formatAmount(m.marketTwap)
+    ),
+    marketMetric("increment_market_oracle_twap", "Oracle TWAP", m =>
+      formatAmount(m.oracleTwap)
+    ),
+    marketMetric(
+      "increment_market_twap_spread_ratio",
+      "Relative deviation of the market TWAP from the oracle TWAP",
+      m => formatAmount(m.twapSpread)
+    ),
+    collateralMetric(
+      "increment_collateral_amount",
+      "Amount of the collateral deposited in the Vault",
+      c => formatAmount(c.currentAmount)
+    ),
+    collateralMetric(
+      "increment_collateral_max_amount",
+      "Cap on the amount of the collateral deposited in the Vault",
+      c => formatAmount(c.maxAmount)
+    ),
+    collateralMetric(
+      "increment_collateral_usage_ratio",
+      "Share of the collateral cap in use",
+      c => formatAmount(c.usage)
+    ),
+    collateralMetric(
+      "increment_collateral_weight",
+      "Weight applied to the collateral value in margin computations",
+      c => formatAmount(c.weight)
+    )
+  ];
+
+  const formatLabels = (labels?: Record<string, string>) =>
+    labels
+      ? `{${Object.entries(labels)
+          .map(([key, value]) => `${key}="${value.replace(/["\\\n]/g, "")}"`)
+          .join(",")}}`
+      : "";
+
+  return metrics
+    .flatMap(({ name, help, samples }) => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} gauge`,
+      ...samples
+        .filter(({ value }) => value !== undefined)
+        .map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`)
+    ])
+    .join("\n");
+};
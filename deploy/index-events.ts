@@ -0,0 +1,20 @@
+import { getProvider } from "./utils";
+import { createEventIndexer } from "../indexer";
+
+export default async function() {
+  const indexer = await createEventIndexer(getProvider(), {
+    database: process.env.INDEXER_DATABASE || undefined,
+    fromBlock: process.env.INDEXER_FROM_BLOCK
+      ? Number(process.env.INDEXER_FROM_BLOCK)
+      : undefined,
+    confirmations: Number(process.env.INDEXER_CONFIRMATIONS || "0"),
+    pollInterval: Number(process.env.INDEXER_POLL_INTERVAL || "15000")
+  });
+
+  try {
+    if (process.env.INDEXER_FOLLOW === "true") await indexer.run();
+    else await indexer.sync();
+  } finally {
+    indexer.close();
+  }
+}
@@ -0,0 +1,172 @@
+import fs from "fs";
+import { Contract, Interface, getAddress, parseEther } from "ethers";
+
+import { getProvider } from "./utils";
+import { getProtocolAddresses } from "./addresses";
+import { getNetworkProfile } from "./networks";
+import { findDeploymentBlock } from "../sdk/events";
+import { formatAmount } from "./format";
+import { getInsuranceReport, renderInsuranceReport } from "./insurance";
+import { buildProposal, L2Action, l2Action, submitProposal } from "./proposal";
+import { trackProposal } from "./proposal-lifecycle";
+import { assertProposalSucceeds } from "./simulation";
+
+const ERC20 = new Interface([
+  "function balanceOf(address account) view returns (uint256)"
+]);
+
+/**
+ * Reports on the coverage of the Insurance, and proposes to top it up or withdraw its surplus depending on
+ * INSURANCE_ACTION:
+ * - "report": prints the coverage, the income per market and the accounts with UA debt
+ * - "fund": proposes to transfer UA held by governance to the Insurance, up to the target balance by default
+ * - "withdraw": proposes to withdraw UA above the target balance through `removeInsurance`. By default, it leaves
+ *   INSURANCE_WITHDRAW_MARGIN percent of the target balance on top of it, so that the proposal still executes if the
+ *   value locked grows until then
+ */
+export default async function() {
+  const action = process.env.INSURANCE_ACTION || "report";
+  if (action !== "report" && action !== "fund" && action !== "withdraw")
+    throw `⛔️ INSURANCE_ACTION must be "report", "fund" or "withdraw", not "${action}"!`;
+
+  const provider = getProvider();
+  const addresses = await getProtocolAddresses(
+    "CLEARING_HOUSE",
+    "INSURANCE",
+    "UA",
+    "OWNED_MULTICALL"
+  );
+  const fromBlock = process.env.INSURANCE_FROM_BLOCK
+    ? Number(process.env.INSURANCE_FROM_BLOCK)
+    : await findDeploymentBlock(provider, addresses.CLEARING_HOUSE);
+  const report = await getInsuranceReport(
+    provider,
+    fromBlock,
+    process.env.REPORT_BLOCK ? Number(process.env.REPORT_BLOCK) : "latest"
+  );
+
+  if (action === "report") {
+    const format = process.env.REPORT_FORMAT || "table";
+    if (format !== "table" && format !== "json")
+      throw `⛔️ REPORT_FORMAT must be "table" or "json", not "${format}"!`;
+    const output =
+      format === "json"
+        ? JSON.stringify(
+            report,
+            (_key, value) =>
+              typeof value === "bigint" ? value.toString() : value,
+            2
+          )
+        : renderInsuranceReport(report);
+
+    if (process.env.REPORT_FILE) {
+      fs.writeFileSync(process.env.REPORT_FILE, output + "\n");
+      console.log(`Report written to ${process.env.REPORT_FILE}`);
+    } else {
+      console.log(output);
+    }
+    return;
+  }
+
+  const actions: L2Action[] = [];
+  let description: string;
+  if (action === "fund") {
+    const amount = process.env.INSURANCE_AMOUNT
+      ? parseEther(process.env.INSURANCE_AMOUNT)
+      : -report.surplus;
+    if (amount <= 0n)
+      throw `⛔️ The Insurance already holds ${formatAmount(
+        report.insuranceBalance
+      )} UA, above its target of ${formatAmount(
+        report.targetBalance
+      )} UA. Set INSURANCE_AMOUNT to fund it anyway!`;
+
+    // The UA is sent by the OwnedMulticall3, which executes the proposals on L2
+    const governanceBalance: bigint = await new Contract(
+      addresses.UA,
+      ERC20,
+      provider
+    ).balanceOf(addresses.OWNED_MULTICALL);
+    if (governanceBalance < amount)
+      console.log(
+        `⚠️ The OwnedMulticall3 only holds ${formatAmount(
+          governanceBalance
+        )} UA, it must receive ${formatAmount(
+          amount - governanceBalance
+        )} UA more before the proposal executes`
+      );
+    if (report.systemBadDebt > 0n)
+      console.log(
+        `⚠️ UA sent directly to the Insurance doesn't reduce its system bad debt of ${formatAmount(
+          report.systemBadDebt
+        )} UA, only the fees collected by the ClearingHouse do`
+      );
+
+    console.log(`Fund the Insurance with ${formatAmount(amount)} UA`);
+    actions.push(
+      await l2Action("UA", "transfer", [addresses.INSURANCE, amount])
+    );
+    description = `fund Insurance with ${formatAmount(amount)} UA`;
+  } else {
+    // `removeInsurance` checks the target against the value locked when the proposal executes, not now
+    const marginPercent = BigInt(process.env.INSURANCE_WITHDRAW_MARGIN || "10");
+    const margin = (report.targetBalance * marginPercent) / 100n;
+    const safeAmount = report.removable - margin;
+    console.log(
+      `Safety margin of ${marginPercent}% of the target balance: ${formatAmount(
+        margin
+      )} UA, for the value locked to grow by as much until the proposal executes`
+    );
+    if (!process.env.INSURANCE_AMOUNT && safeAmount <= 0n)
+      throw `⛔️ The surplus of ${formatAmount(
+        report.removable
+      )} UA doesn't exceed the safety margin of ${formatAmount(
+        margin
+      )} UA! Lower INSURANCE_WITHDRAW_MARGIN or set INSURANCE_AMOUNT`;
+    const amount = process.env.INSURANCE_AMOUNT
+      ? parseEther(process.env.INSURANCE_AMOUNT)
+      : safeAmount;
+    if (amount <= 0n || amount > report.removable)
+      throw `⛔️ Only ${formatAmount(
+        report.removable
+      )} UA can be removed from the Insurance (balance ${formatAmount(
+        report.insuranceBalance
+      )} UA, target ${formatAmount(
+        report.targetBalance
+      )} UA, system bad debt ${formatAmount(report.systemBadDebt)} UA)!`;
+    if (amount > safeAmount)
+      console.log(
+        `⚠️ Withdrawing ${formatAmount(
+          amount
+        )} UA leaves less than the safety margin above the target balance, the proposal reverts if the value locked grows by ${marginPercent}% until it executes`
+      );
+
+    console.log(`Withdraw ${formatAmount(amount)} UA from the Insurance`);
+    actions.push(await l2Action("INSURANCE", "removeInsurance", [amount]));
+    // `removeInsurance` sends the UA to the OwnedMulticall3
+    if (process.env.INSURANCE_RECIPIENT)
+      actions.push(
+        await l2Action("UA", "transfer", [
+          getAddress(process.env.INSURANCE_RECIPIENT),
+          amount
+        ])
+      );
+    description = `withdraw ${formatAmount(amount)} UA from Insurance`;
+  }
+  actions.forEach(action => console.log(` - ${action.description}`));
+
+  if (process.env.SIMULATION_RPC_URL) {
+    console.log("Simulate L2 actions on a local fork");
+    await assertProposalSucceeds(actions);
+  }
+  if (process.env.DRY_RUN === "true") return;
+
+  console.log("Create proposal");
+  const proposal = await buildProposal(actions, description);
+  const proposalId = await submitProposal(proposal);
+
+  if (getNetworkProfile().autoExecuteProposals) {
+    console.log("Vote, queue and execute proposal");
+    await trackProposal(proposalId, { vote: true });
+  }
+}
@@ -0,0 +1,341 @@
+import {
+  BlockTag,
+  Contract,
+  Interface,
+  Provider,
+  getAddress,
+  zeroPadValue
+} from "ethers";
+
+import { getInterface } from "./abi";
+import { getProtocolAddresses } from "./addresses";
+import { getLogsInRange } from "../sdk/events";
+import { formatAmount, renderTable } from "./format";
+import { multicallRead } from "./multicall";
+
+const WAD = 10n ** 18n;
+
+// Amounts and ratios are 18 decimals
+export type InsuranceCoverage = {
+  block: number;
+  insuranceBalance: bigint;
+  totalValueLocked: bigint;
+  insuranceRatio: bigint;
+  /**
+   * Balance below which `removeInsurance` reverts, i.e. `insuranceRatio` of the value locked
+   */
+  targetBalance: bigint;
+  /**
+   * Insurance balance relative to the value locked
+   */
+  coverageRatio: bigint;
+  systemBadDebt: bigint;
+  /**
+   * Balance above the target, negative when short of it
+   */
+  surplus: bigint;
+  /**
+   * Largest amount `removeInsurance` accepts
+   */
+  removable: bigint;
+  uaDebtSeizureThreshold: bigint;
+};
+
+export type MarketInsuranceIncome = {
+  idx: bigint;
+  trades: number;
+  /**
+   * `insuranceFee` paid on trades, from the `ChangePosition` events
+   */
+  insuranceFees: bigint;
+  /**
+   * `insuranceFee` paid on the quote proceeds of `removeLiquidity`, from the UA transfers to the Insurance of the
+   * transactions emitting `LiquidityRemoved`
+   */
+  liquidityRemovalFees: bigint;
+  /**
+   * Insurance share of the liquidation rewards, from the UA transfers to the Insurance of the transactions emitting
+   * `LiquidationCall`
+   */
+  liquidationRewards: bigint;
+  /**
+   * Proceeds of the dust sales, from the `DustSold` events
+   */
+  dustProceeds: bigint;
+};
+
+export type UaDebtAccount = {
+  account: string;
+  debt: bigint;
+  aboveSeizureThreshold: boolean;
+  canSeizeCollateral: boolean;
+};
+
+export type InsuranceReport = InsuranceCoverage & {
+  fromBlock: number;
+  markets: MarketInsuranceIncome[];
+  /**
+   * Sorted by decreasing debt
+   */
+  uaDebtAccounts: UaDebtAccount[];
+};
+
+const ERC20 = new Interface([
+  "function balanceOf(address account) view returns (uint256)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)"
+]);
+
+/**
+ * Reads the Insurance balance against the `insuranceRatio` of the value locked in the Vault, sums the fees paid to
+ * the Insurance by each market since `fromBlock`, and lists the accounts which traded or provided liquidity and are
+ * left with UA debt
+ */
+export const getInsuranceReport = async (
+  provider: Provider,
+  fromBlock: number,
+  blockTag: BlockTag = "latest"
+): Promise<InsuranceReport> => {
+  const addresses = await getProtocolAddresses(
+    "CLEARING_HOUSE",
+    "VAULT",
+    "INSURANCE",
+    "UA"
+  );
+  const clearingHouse = new Contract(
+    addresses.CLEARING_HOUSE,
+    await getInterface("ClearingHouse"),
+    provider
+  );
+  const vault = new Contract(
+    addresses.VAULT,
+    await getInterface("Vault"),
+    provider
+  );
+  const insurance = new Contract(
+    addresses.INSURANCE,
+    await getInterface("Insurance"),
+    provider
+  );
+  const ua = new Contract(addresses.UA, ERC20, provider);
+  const block = (await provider.getBlock(blockTag))!.number;
+
+  const [
+    insuranceBalance,
+    totalValueLocked,
+    insuranceRatio,
+    systemBadDebt,
+    uaDebtSeizureThreshold
+  ] = (
+    await multicallRead(
+      provider,
+      [
+        { contract: ua, method: "balanceOf", args: [addresses.INSURANCE] },
+        { contract: vault, method: "getTotalValueLocked" },
+        { contract: clearingHouse, method: "insuranceRatio" },
+        { contract: insurance, method: "systemBadDebt" },
+        { contract: clearingHouse, method: "uaDebtSeizureThreshold" }
+      ],
+      block
+    )
+  ).map(result => result![0] as bigint);
+
+  // Same rounding as the check of `removeInsurance`
+  const targetBalance = (totalValueLocked * insuranceRatio) / WAD;
+  const surplus = insuranceBalance - targetBalance;
+  const removable =
+    systemBadDebt === 0n && surplus > 0n
+      ? surplus < insuranceBalance
+        ? surplus
+        : insuranceBalance - 1n
+      : 0n;
+
+  const marketLogs = await getLogsInRange(
+    provider,
+    {
+      address: addresses.CLEARING_HOUSE,
+      topics: [
+        [
+          "ChangePosition",
+          "LiquidityProvided",
+          "LiquidityRemoved",
+          "LiquidationCall",
+          "DustSold"
+        ].map(name => clearingHouse.interface.getEvent(name)!.topicHash)
+      ]
+    },
+    fromBlock,
+    block
+  );
+  // `fundInsurance` has the Vault transfer the UA to the Insurance before the ClearingHouse emits the market event
+  const transferTopic = ERC20.getEvent("Transfer")!.topicHash;
+  const fundingLogs = await getLogsInRange(
+    provider,
+    {
+      address: addresses.UA,
+      topics: [
+        transferTopic,
+        zeroPadValue(addresses.VAULT, 32),
+        zeroPadValue(addresses.INSURANCE, 32)
+      ]
+    },
+    fromBlock,
+    block
+  );
+  const logs = [...marketLogs, ...fundingLogs].sort(
+    (a, b) => a.blockNumber - b.blockNumber || a.index - b.index
+  );
+
+  const income = new Map<bigint, MarketInsuranceIncome>();
+  const getIncome = (idx: bigint) => {
+    if (!income.has(idx))
+      income.set(idx, {
+        idx,
+        trades: 0,
+        insuranceFees: 0n,
+        liquidityRemovalFees: 0n,
+        liquidationRewards: 0n,
+        dustProceeds: 0n
+      });
+    return income.get(idx)!;
+  };
+  const accounts = new Set<string>();
+  let transactionHash = "";
+  let funded = 0n;
+  for (const eventLog of logs) {
+    if (eventLog.transactionHash !== transactionHash) {
+      transactionHash = eventLog.transactionHash;
+      funded = 0n;
+    }
+    if (eventLog.topics[0] === transferTopic) {
+      funded += BigInt(eventLog.data);
+      continue;
+    }
+    const event = clearingHouse.interface.parseLog({
+      topics: [...eventLog.topics],
+      data: eventLog.data
+    })!;
+    if (event.name === "ChangePosition") {
+      const marketIncome = getIncome(event.args.idx);
+      marketIncome.trades++;
+      marketIncome.insuranceFees += event.args.insuranceFeesPayed;
+      accounts.add(getAddress(event.args.user));
+    } else if (event.name === "LiquidityProvided") {
+      accounts.add(getAddress(event.args.liquidityProvider));
+    } else if (event.name === "LiquidityRemoved") {
+      getIncome(event.args.idx).liquidityRemovalFees += funded;
+    } else if (event.name === "LiquidationCall") {
+      getIncome(event.args.idx).liquidationRewards += funded;
+    } else {
+      getIncome(event.args.idx).dustProceeds += event.args.profit;
+    }
+    // The transfers before the next market event of the transaction belong to it
+    funded = 0n;
+  }
+
+  const uaBalances = await multicallRead(
+    provider,
+    [...accounts].map(account => ({
+      contract: vault,
+      method: "getBalance",
+      args: [account, 0]
+    })),
+    block
+  );
+  const debtors = [...accounts]
+    .map((account, i) => ({ account, debt: -(uaBalances[i]![0] as bigint) }))
+    .filter(({ debt }) => debt > 0n);
+  const canSeize = await multicallRead(
+    provider,
+    debtors.map(({ account }) => ({
+      contract: clearingHouse,
+      method: "canSeizeCollateral",
+      args: [account]
+    })),
+    block
+  );
+  const uaDebtAccounts: UaDebtAccount[] = debtors
+    .map(({ account, debt }, i) => ({
+      account,
+      debt,
+      aboveSeizureThreshold: debt > uaDebtSeizureThreshold,
+      canSeizeCollateral: canSeize[i]![0] as boolean
+    }))
+    .sort((a, b) => (a.debt > b.debt ? -1 : a.debt < b.debt ? 1 : 0));
+
+  return {
+    block,
+    fromBlock,
+    insuranceBalance,
+    totalValueLocked,
+    insuranceRatio,
+    targetBalance,
+    coverageRatio:
+      totalValueLocked > 0n ? (insuranceBalance * WAD) / totalValueLocked : 0n,
+    systemBadDebt,
+    surplus,
+    removable,
+    uaDebtSeizureThreshold,
+    markets: [...income.values()].sort((a, b) => Number(a.idx - b.idx)),
+    uaDebtAccounts
+  };
+};
+
+/**
+ * Renders the coverage of the Insurance, its income per market and the UA debt as plain text tables
+ */
+export const renderInsuranceReport = (report: InsuranceReport) => {
+  const coverage = renderTable(
+    ["Metric", "Value"],
+    [
+      ["Insurance balance (UA)", formatAmount(report.insuranceBalance)],
+      ["Value locked (UA)", formatAmount(report.totalValueLocked)],
+      ["Coverage ratio", formatAmount(report.coverageRatio)],
+      ["Insurance ratio target", formatAmount(report.insuranceRatio)],
+      ["Target balance (UA)", formatAmount(report.targetBalance)],
+      [
+        report.surplus < 0n ? "Shortfall (UA)" : "Surplus (UA)",
+        formatAmount(report.surplus < 0n ? -report.surplus : report.surplus)
+      ],
+      ["Removable (UA)", formatAmount(report.removable)],
+      ["System bad debt (UA)", formatAmount(report.systemBadDebt)]
+    ]
+  );
+  const income = renderTable(
+    [
+      "Market",
+      "Trades",
+      "Insurance fees (UA)",
+      "Liquidity removal fees (UA)",
+      "Liquidation rewards (UA)",
+      "Dust proceeds (UA)"
+    ],
+    report.markets.map(market => [
+      market.idx.toString(),
+      market.trades.toString(),
+      formatAmount(market.insuranceFees),
+      formatAmount(market.liquidityRemovalFees),
+      formatAmount(market.liquidationRewards),
+      formatAmount(market.dustProceeds)
+    ])
+  );
+  const debt = renderTable(
+    ["Account", "UA debt", "Above seizure threshold", "Can seize collateral"],
+    report.uaDebtAccounts.map(account => [
+      account.account,
+      formatAmount(account.debt),
+      account.aboveSeizureThreshold ? "yes" : "no",
+      account.canSeizeCollateral ? "yes" : "no"
+    ])
+  );
+
+  return [
+    `Insurance at block ${report.block}`,
+    coverage,
+    `Income since block ${report.fromBlock}`,
+    report.markets.length ? income : "No income",
+    `UA debt (seizure threshold ${formatAmount(
+      report.uaDebtSeizureThreshold
+    )} UA)`,
+    report.uaDebtAccounts.length ? debt : "No account with UA debt"
+  ].join("\n\n");
+};
@@ -0,0 +1,30 @@
+import { parseEther } from "ethers";
+
+import { getWallet } from "./utils";
+import { getProtocolAddresses } from "./addresses";
+import { createLiquidationKeeper } from "../sdk/liquidator";
+
+export default async function() {
+  const addresses = await getProtocolAddresses(
+    "CLEARING_HOUSE",
+    "CLEARING_HOUSE_VIEWER"
+  );
+  const keeper = await createLiquidationKeeper(getWallet(), addresses, {
+    dryRun: process.env.DRY_RUN === "true",
+    fromBlock: process.env.KEEPER_FROM_BLOCK
+      ? Number(process.env.KEEPER_FROM_BLOCK)
+      : undefined,
+    minReward: parseEther(process.env.KEEPER_MIN_REWARD || "0"),
+    ethPrice: process.env.KEEPER_ETH_PRICE
+      ? parseEther(process.env.KEEPER_ETH_PRICE)
+      : undefined,
+    seizeCollateral: process.env.KEEPER_SEIZE_COLLATERAL !== "false",
+    pollInterval: Number(process.env.KEEPER_POLL_INTERVAL || "30000")
+  });
+
+  if (process.env.KEEPER_ONCE === "true") {
+    await keeper.scan();
+    return;
+  }
+  await keeper.run();
+}
@@ -0,0 +1,23 @@
+import { parseEther } from "ethers";
+
+import { getWallet } from "./utils";
+import { getProtocolAddresses } from "./addresses";
+import { createMaintenanceKeeper } from "../sdk/maintenance";
+
+export default async function() {
+  const addresses = await getProtocolAddresses(
+    "CLEARING_HOUSE",
+    "CLEARING_HOUSE_VIEWER"
+  );
+  const keeper = await createMaintenanceKeeper(getWallet(), addresses, {
+    dryRun: process.env.DRY_RUN === "true",
+    dustThreshold: parseEther(process.env.KEEPER_DUST_THRESHOLD || "0"),
+    pollInterval: Number(process.env.KEEPER_POLL_INTERVAL || "60000")
+  });
+
+  if (process.env.KEEPER_ONCE === "true") {
+    await keeper.maintain();
+    return;
+  }
+  await keeper.run();
+}
@@ -0,0 +1,175 @@
+import fs from "fs";
+import path from "path";
+import { Contract, Wallet, utils } from "zksync-ethers";
+import { Deployer } from "@matterlabs/hardhat-zksync-deploy";
+import { ContractTransactionResponse, Interface, hexlify } from "ethers";
+import * as hre from "hardhat";
+
+import { deployContract, getWallet, DeployContractOptions } from "./utils";
+
+export type ContractRecord = {
+  contractName: string;
+  address: string;
+  txHash: string | null;
+  constructorArgs: any[];
+  encodedConstructorArgs: string;
+  bytecodeHash: string;
+  deployedAt: string;
+};
+
+export type StepRecord = {
+  txHash: string | null;
+  completedAt: string;
+};
+
+export type DeploymentManifest = {
+  network: string;
+  chainId: number;
+  contracts: Record<string, ContractRecord>;
+  steps: Record<string, StepRecord>;
+};
+
+export const getManifestPath = (network = hre.network.name) =>
+  path.join(hre.config.paths.root, "deployments", network, "manifest.json");
+
+// JSON.stringify can't handle bigints and mangles byte arrays, both of which show up in constructor args
+const serialize = (_key: string, value: any) => {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof Uint8Array) return hexlify(value);
+  return value;
+};
+
+/**
+ * Loads the deployment manifest of the active network, or an empty one if nothing was deployed yet
+ */
+export const loadManifest = async (
+  wallet: Wallet
+): Promise<DeploymentManifest> => {
+  const network = hre.network.name;
+  const chainId = Number((await wallet.provider.getNetwork()).chainId);
+  const manifestPath = getManifestPath(network);
+
+  if (!fs.existsSync(manifestPath)) {
+    return { network, chainId, contracts: {}, steps: {} };
+  }
+
+  const manifest: DeploymentManifest = JSON.parse(
+    fs.readFileSync(manifestPath, "utf8")
+  );
+  if (manifest.chainId !== chainId)
+    throw `⛔️ Deployment manifest ${manifestPath} was written for chain ${manifest.chainId}, but "${network}" is chain ${chainId}!`;
+
+  return manifest;
+};
+
+export const saveManifest = (manifest: DeploymentManifest) => {
+  const manifestPath = getManifestPath(manifest.network);
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, serialize, 2) + "\n");
+};
+
+type DeployOnceOptions = DeployContractOptions & {
+  /**
+   * Key under which the contract is recorded in the manifest. Defaults to the artifact name
+   */
+  key?: string;
+};
+
+/**
+ * Deploys a contract and records it in the manifest, or reattaches to it if a previous run already deployed it
+ */
+export const deployOnce = async (
+  manifest: DeploymentManifest,
+  contractArtifactName: string,
+  constructorArguments: any[] = [],
+  options?: DeployOnceOptions
+) => {
+  const key = options?.key ?? contractArtifactName;
+  const wallet = options?.wallet ?? getWallet();
+  const deployer = new Deployer(hre, wallet);
+  const artifact = await deployer.loadArtifact(contractArtifactName);
+  const bytecodeHash = hexlify(utils.hashBytecode(artifact.bytecode));
+
+  const record = manifest.contracts[key];
+  if (record) {
+    if (record.bytecodeHash !== bytecodeHash)
+      throw `⛔️ "${key}" at ${
+        record.address
+      } was deployed from different bytecode than the current "${contractArtifactName}" artifact! Remove it from ${getManifestPath(
+        manifest.network
+      )} to redeploy it`;
+    // Compared encoded, as the recorded arguments went through JSON
+    const encodedConstructorArgs = new Interface(artifact.abi).encodeDeploy(
+      constructorArguments
+    );
+    if (record.encodedConstructorArgs !== encodedConstructorArgs)
+      throw `⛔️ "${key}" at ${
+        record.address
+      } was deployed with constructor arguments ${JSON.stringify(
+        record.constructorArgs
+      )}, not ${JSON.stringify(
+        constructorArguments,
+        serialize
+      )}! Remove it from ${getManifestPath(manifest.network)} to redeploy it`;
+    if ((await wallet.provider.getCode(record.address)) === "0x")
+      throw `⛔️ No code found at ${
+        record.address
+      } for "${key}"! Delete ${getManifestPath(
+        manifest.network
+      )} to start a fresh deployment`;
+
+    if (!options?.silent)
+      console.log(`\n"${key}" already deployed at ${record.address}, skipping`);
+    return new Contract(record.address, artifact.abi, wallet);
+  }
+
+  const contract = await deployContract(
+    contractArtifactName,
+    constructorArguments,
+    { ...options, wallet }
+  );
+
+  manifest.contracts[key] = {
+    contractName: contractArtifactName,
+    address: await contract.getAddress(),
+    txHash: contract.deploymentTransaction()?.hash ?? null,
+    constructorArgs: constructorArguments,
+    encodedConstructorArgs: contract.interface.encodeDeploy(
+      constructorArguments
+    ),
+    bytecodeHash,
+    deployedAt: new Date().toISOString()
+  };
+  saveManifest(manifest);
+
+  return contract;
+};
+
+/**
+ * Sends a post-deployment transaction once and records it in the manifest.
+ * `isComplete` lets a rerun detect on-chain that the step already went through before it was recorded
+ */
+export const runOnce = async (
+  manifest: DeploymentManifest,
+  step: string,
+  send: () => Promise<ContractTransactionResponse>,
+  isComplete?: () => Promise<boolean>
+) => {
+  if (manifest.steps[step]) {
+    console.log(`Step "${step}" already completed, skipping`);
+    return;
+  }
+
+  let txHash: string | null = null;
+  if (isComplete && (await isComplete())) {
+    console.log(`Step "${step}" already applied on chain, recording it`);
+  } else {
+    console.log(`Running step "${step}"...`);
+    const tx = await send();
+    await tx.wait();
+    txHash = tx.hash;
+  }
+
+  manifest.steps[step] = { txHash, completedAt: new Date().toISOString() };
+  saveManifest(manifest);
+};
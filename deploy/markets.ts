@@ -0,0 +1,75 @@
+import { Contract, ContractRunner } from "ethers";
+import * as hre from "hardhat";
+
+import { getProtocolAddresses } from "./addresses";
+
+/**
+ * Contracts of a market registered in the ClearingHouse. `idx` is the market id used by the ClearingHouse entry points
+ */
+export type MarketContracts = {
+  idx: bigint;
+  perpetual: string;
+  market: string;
+  vBase: string;
+  vQuote: string;
+};
+
+const getContract = async (
+  contract: string,
+  address: string,
+  runner: ContractRunner
+) => {
+  const artifact = await hre.artifacts.readArtifact(contract);
+  return new Contract(address, artifact.abi, runner);
+};
+
+export const getClearingHouse = async (runner: ContractRunner) =>
+  getContract(
+    "ClearingHouse",
+    (await getProtocolAddresses("CLEARING_HOUSE")).CLEARING_HOUSE,
+    runner
+  );
+
+export const getPerpetual = (address: string, runner: ContractRunner) =>
+  getContract("Perpetual", address, runner);
+
+/**
+ * Lists the markets currently registered in the ClearingHouse
+ */
+export const getMarkets = async (
+  runner: ContractRunner
+): Promise<MarketContracts[]> => {
+  const clearingHouse = await getClearingHouse(runner);
+  const numMarkets = Number(await clearingHouse.getNumMarkets());
+
+  const markets: MarketContracts[] = [];
+  for (let i = 0; i < numMarkets; i++) {
+    const idx: bigint = await clearingHouse.id(i);
+    const perpetual = await getPerpetual(
+      await clearingHouse.perpetuals(idx),
+      runner
+    );
+    markets.push({
+      idx,
+      perpetual: await perpetual.getAddress(),
+      market: await perpetual.market(),
+      vBase: await perpetual.vBase(),
+      vQuote: await perpetual.vQuote()
+    });
+  }
+  return markets;
+};
+
+/**
+ * Finds the market of a base currency among the listed ones, from the `v<base currency>` symbol of its vBase
+ */
+export const findMarketByBaseCurrency = async (
+  runner: ContractRunner,
+  baseCurrency: string
+) => {
+  for (const market of await getMarkets(runner)) {
+    const vBase = await getContract("VBase", market.vBase, runner);
+    if ((await vBase.symbol()) === `v${baseCurrency}`) return market;
+  }
+  throw `⛔️ No ${baseCurrency}USD market listed in the ClearingHouse!`;
+};
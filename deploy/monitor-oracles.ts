@@ -0,0 +1,25 @@
+import { getProvider } from "./utils";
+import { getProtocolAddresses } from "./addresses";
+import { createOracleMonitor } from "../sdk/oracle-monitor";
+
+export default async function() {
+  const addresses = await getProtocolAddresses("ORACLE", "VAULT");
+  const monitor = await createOracleMonitor(getProvider(), addresses, {
+    fromBlock: process.env.MONITOR_FROM_BLOCK
+      ? Number(process.env.MONITOR_FROM_BLOCK)
+      : undefined,
+    warningWindow: process.env.MONITOR_WARNING_WINDOW
+      ? Number(process.env.MONITOR_WARNING_WINDOW)
+      : undefined,
+    webhookUrl: process.env.MONITOR_WEBHOOK_URL || undefined,
+    pollInterval: Number(process.env.MONITOR_POLL_INTERVAL || "60000")
+  });
+
+  if (process.env.MONITOR_ONCE === "true") {
+    const { alerts } = await monitor.check();
+    await monitor.notify(alerts);
+    if (alerts.length === 0) console.log("✅ Every feed can be read");
+    return;
+  }
+  await monitor.run();
+}
@@ -0,0 +1,62 @@
+import { BlockTag, Contract, ContractRunner, Result } from "ethers";
+
+import { decodeRevertData, getInterface } from "./abi";
+import { getNetworkProfile } from "./networks";
+
+/**
+ * A view call batched through Multicall3
+ */
+export type MulticallRead = {
+  contract: Contract;
+  method: string;
+  args?: any[];
+  /**
+   * Resolve to undefined instead of throwing if the call reverts
+   */
+  allowFailure?: boolean;
+};
+
+/**
+ * Address of Multicall3, from MULTICALL3_ADDRESS (e.g. for local nodes) or the network profile
+ */
+export const getMulticall3Address = () =>
+  process.env.MULTICALL3_ADDRESS || getNetworkProfile().addresses.MULTICALL3;
+
+/**
+ * Executes view calls in a single `aggregate3` call, returning their decoded results in order.
+ * Throws with the decoded revert reason if any of them reverts, unless it allows failure
+ */
+export const multicallRead = async (
+  runner: ContractRunner,
+  reads: MulticallRead[],
+  blockTag?: BlockTag
+): Promise<(Result | undefined)[]> => {
+  if (reads.length === 0) return [];
+
+  const multicall = new Contract(
+    getMulticall3Address(),
+    await getInterface("Multicall3"),
+    runner
+  );
+  const calls = reads.map(({ contract, method, args = [] }) => ({
+    target: contract.target,
+    allowFailure: true,
+    callData: contract.interface.encodeFunctionData(method, args)
+  }));
+  const results: {
+    success: boolean;
+    returnData: string;
+  }[] = await multicall.aggregate3.staticCall(calls, { blockTag });
+
+  return Promise.all(
+    results.map(async ({ success, returnData }, i) => {
+      const { contract, method, allowFailure } = reads[i];
+      if (!success && allowFailure) return undefined;
+      if (!success)
+        throw `⛔️ ${method} reverted on ${
+          contract.target
+        }: ${await decodeRevertData(returnData)}`;
+      return contract.interface.decodeFunctionResult(method, returnData);
+    })
+  );
+};
@@ -0,0 +1,21 @@
+import * as hre from "hardhat";
+
+import { NetworkProfile } from "./types";
+import zkSyncMainnet from "./zkSyncMainnet";
+import zkSyncSepoliaTestnet from "./zkSyncSepoliaTestnet";
+
+export * from "./types";
+
+// Keyed by the network names of hardhat.config.ts
+const profiles: Record<string, NetworkProfile> = {
+  zkSyncMainnet,
+  zkSyncSepoliaTestnet
+};
+
+export const getNetworkProfile = (network = hre.network.name) => {
+  const profile = profiles[network];
+  if (!profile)
+    throw `⛔️ No deployment profile found for network "${network}"! Please add one to deploy/networks`;
+
+  return profile;
+};
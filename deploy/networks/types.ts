@@ -0,0 +1,40 @@
+import constants from "../constants";
+
+export type GlobalParams = typeof constants.global;
+
+export type MarketParams = typeof constants.marketParams.ETH;
+
+/**
+ * Everything the deploy scripts need to know about a network. Contracts deployed by
+ * the scripts themselves are read from the network's address book instead
+ */
+export type NetworkProfile = {
+  addresses: {
+    CRYPTO_SWAP_FACTORY: string;
+    /**
+     * Reserve token of UA. If not set, a USDCMock is deployed with the protocol (requires `mockUSDC`)
+     */
+    USDC?: string;
+    CURVE_MATH: string;
+    L1_GOVERNOR: string;
+    L1_TIMELOCK: string;
+    EMERGENCY_ADMIN: string;
+    ZKSYNC_DIAMOND_PROXY: string;
+    /**
+     * Canonical Multicall3, used to batch reads
+     */
+    MULTICALL3: string;
+    ORACLES: Record<string, string>;
+  };
+  global: GlobalParams;
+  marketParams: Record<string, MarketParams>;
+  /**
+   * If true, USDC is a USDCMock which the deployer can mint
+   */
+  mockUSDC: boolean;
+  /**
+   * If true, proposals are voted for, queued and executed right after being created.
+   * Only works if the deployer holds enough voting power on the L1 governor
+   */
+  autoExecuteProposals: boolean;
+};
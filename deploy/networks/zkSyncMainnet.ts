@@ -0,0 +1,25 @@
+import { NetworkProfile } from "./types";
+import constants from "../constants";
+
+const profile: NetworkProfile = {
+  addresses: {
+    CRYPTO_SWAP_FACTORY: "0x890b12affd59525e4f0273aF00Dcd9c4Ac7698C1",
+    USDC: "0x3355df6D4c9C3035724Fd0e3914dE96A5a83aaf4",
+    CURVE_MATH: "0xAb880013531B87FFfCB5e9d95677913720ca1c3A",
+    L1_GOVERNOR: "0x134E7ABaF7E8c440f634aE9f5532A4df53c19385",
+    L1_TIMELOCK: "0xcce2065c1DC423451530BF7B493243234Ba1E849",
+    EMERGENCY_ADMIN: "0x4f05E10B7e60D5b18c38a723d9469b4962C288D9",
+    ZKSYNC_DIAMOND_PROXY: "0x32400084c286cf3e17e7b677ea9583e60a000324",
+    MULTICALL3: "0xF9cda624FBC7e059355ce98a31693d299FACd963",
+    ORACLES: {
+      ETH: "0x6D41d1dc818112880b40e26BD6FD347E41008eDA",
+      USDC: "0x1824D297C6d6D311A204495277B63e943C2D376E"
+    }
+  },
+  global: constants.global,
+  marketParams: constants.marketParams,
+  mockUSDC: false,
+  autoExecuteProposals: false
+};
+
+export default profile;
@@ -0,0 +1,25 @@
+import { NetworkProfile } from "./types";
+import constants from "../constants";
+
+const profile: NetworkProfile = {
+  addresses: {
+    CRYPTO_SWAP_FACTORY: "0x5Cf551789B86674C69195c31D59A5542246c9143",
+    USDC: "0xd88D19467f464e070Ebdb34a71D8b728CcE5E8c9",
+    CURVE_MATH: "0xa6C87D8ffB484659ce920CF58f536BcaD6E56801",
+    L1_GOVERNOR: "0xCCA9146Cd8a10364EfBe522D07794bBAA4Ed7101",
+    L1_TIMELOCK: "0x9366B4B689Fb7BF53940A39eEf541f8209D685e4",
+    EMERGENCY_ADMIN: "0xe7b74bd0524cF3Cc975Aa9533C9Ef6936Fc92532",
+    ZKSYNC_DIAMOND_PROXY: "0x9A6DE0f62Aa270A8bCB1e2610078650D539B1Ef9",
+    MULTICALL3: "0xF9cda624FBC7e059355ce98a31693d299FACd963",
+    ORACLES: {
+      ETH: "0x827B959E10f6bd93A74aa8C49a47ef1583DC4E7B",
+      USDC: "0x7cE598670861E8a68D31290469787C1FF3cBB21e"
+    }
+  },
+  global: constants.global,
+  marketParams: constants.marketParams,
+  mockUSDC: true,
+  autoExecuteProposals: true
+};
+
+export default profile;
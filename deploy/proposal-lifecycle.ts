@@ -0,0 +1,212 @@
+import { Contract } from "ethers";
+import { Wallet } from "zksync-ethers";
+
+import { getWallet, getL1Wallet } from "./utils";
+import {
+  getGovernor,
+  loadProposalRecord,
+  saveProposalRecord,
+  ProposalRecord
+} from "./proposal";
+
+/**
+ * Values of OpenZeppelin's `IGovernor.ProposalState`, in order
+ */
+export const PROPOSAL_STATES = [
+  "Pending",
+  "Active",
+  "Canceled",
+  "Defeated",
+  "Succeeded",
+  "Queued",
+  "Expired",
+  "Executed"
+] as const;
+
+export type ProposalState = typeof PROPOSAL_STATES[number];
+
+type TrackProposalOptions = {
+  wallet?: Wallet;
+  l1Wallet?: Wallet;
+  governor?: Contract;
+  /**
+   * Cast a vote in favor of the proposal with the L1 wallet once voting opens (testnets only)
+   */
+  vote?: boolean;
+  /**
+   * Milliseconds between two reads of the proposal state. Defaults to 30s
+   */
+  pollInterval?: number;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const updateRecord = (
+  record: ProposalRecord,
+  update: Partial<ProposalRecord>
+) => {
+  Object.assign(record, update, { updatedAt: new Date().toISOString() });
+  saveProposalRecord(record);
+};
+
+/**
+ * Finds the L1 transaction which executed the proposal, for proposals executed by another account
+ */
+const findExecutionTx = async (governor: Contract, record: ProposalRecord) => {
+  const l1Provider = governor.runner!.provider!;
+  const proposeReceipt = await l1Provider.getTransactionReceipt(
+    record.txHashes.propose
+  );
+  const events = await governor.queryFilter(
+    governor.filters.ProposalExecuted(),
+    proposeReceipt!.blockNumber
+  );
+  const execution = events.find(
+    event => "args" in event && event.args.proposalId.toString() === record.id
+  );
+  if (!execution)
+    throw `⛔️ Proposal ${record.id} is executed, but its ProposalExecuted event wasn't found!`;
+
+  return execution.transactionHash;
+};
+
+/**
+ * Follows the priority operation created by the execution of the proposal until its L2 transaction is processed
+ */
+const confirmL2Transaction = async (
+  wallet: Wallet,
+  governor: Contract,
+  record: ProposalRecord
+) => {
+  const executeTxHash =
+    record.txHashes.execute ?? (await findExecutionTx(governor, record));
+  const executeTx = await governor.runner!.provider!.getTransaction(
+    executeTxHash
+  );
+
+  console.log("Waiting for the L1 -> L2 transaction to be processed");
+  const l2Tx = await wallet.provider.getL2TransactionFromPriorityOp(executeTx!);
+  updateRecord(record, {
+    txHashes: { ...record.txHashes, execute: executeTxHash, l2: l2Tx.hash }
+  });
+
+  const l2Receipt = await wallet.provider.waitForTransaction(l2Tx.hash);
+  if (l2Receipt.status !== 1) {
+    updateRecord(record, { state: "L2Failed" });
+    throw `⛔️ L2 transaction ${l2Tx.hash} of proposal ${record.id} failed!`;
+  }
+
+  updateRecord(record, { state: "L2Confirmed" });
+  console.log(`Proposal ${record.id} executed on L2 in ${l2Tx.hash}`);
+};
+
+/**
+ * Drives a submitted proposal through voting, queuing and execution, waiting on the governor's
+ * state between each step, then waits for the resulting L2 transaction. Progress is saved to
+ * the proposal record after each step, so tracking can be stopped and resumed at any time
+ */
+export const trackProposal = async (
+  proposalId: bigint | string,
+  options?: TrackProposalOptions
+) => {
+  const wallet = options?.wallet ?? getWallet();
+  const l1Wallet = options?.l1Wallet ?? getL1Wallet();
+  const governor = options?.governor ?? (await getGovernor(l1Wallet));
+  const pollInterval = options?.pollInterval ?? 30000;
+  const record = loadProposalRecord(proposalId);
+
+  if (record.state === "L2Confirmed") {
+    console.log(`Proposal ${record.id} was already executed on L2`);
+    return record;
+  }
+
+  const { targets, values, calldatas, descriptionHash } = record;
+  let lastState: ProposalState | undefined;
+
+  while (true) {
+    const state = PROPOSAL_STATES[Number(await governor.state(record.id))];
+    const stateChanged = state !== lastState;
+    if (stateChanged) {
+      console.log(`Proposal ${record.id} is ${state}`);
+      updateRecord(record, { state });
+      lastState = state;
+    }
+
+    switch (state) {
+      case "Pending":
+        if (stateChanged)
+          console.log(
+            `Voting starts after ${await governor.proposalSnapshot(record.id)}`
+          );
+        break;
+
+      case "Active": {
+        if (
+          options?.vote &&
+          !(await governor.hasVoted(record.id, l1Wallet.address))
+        ) {
+          const voteTx = await governor.castVote(record.id, 1);
+          await voteTx.wait();
+          updateRecord(record, {
+            txHashes: { ...record.txHashes, vote: voteTx.hash }
+          });
+          console.log("Vote casted");
+        }
+        if (stateChanged)
+          console.log(
+            `Voting ends after ${await governor.proposalDeadline(record.id)}`
+          );
+        break;
+      }
+
+      case "Succeeded": {
+        const queueTx = await governor.queue(
+          targets,
+          values,
+          calldatas,
+          descriptionHash
+        );
+        await queueTx.wait();
+        updateRecord(record, {
+          txHashes: { ...record.txHashes, queue: queueTx.hash }
+        });
+        continue;
+      }
+
+      case "Queued": {
+        const eta: bigint = await governor.proposalEta(record.id);
+        const latestBlock = await l1Wallet.provider.getBlock("latest");
+        if (BigInt(latestBlock!.timestamp) < eta) {
+          if (stateChanged)
+            console.log(
+              `Timelock delay ends at ${new Date(
+                Number(eta) * 1000
+              ).toISOString()}`
+            );
+          break;
+        }
+
+        const executeTx = await governor.execute(
+          targets,
+          values,
+          calldatas,
+          descriptionHash
+        );
+        await executeTx.wait();
+        updateRecord(record, {
+          txHashes: { ...record.txHashes, execute: executeTx.hash }
+        });
+        continue;
+      }
+
+      case "Executed":
+        await confirmL2Transaction(wallet, governor, record);
+        return record;
+
+      default:
+        throw `⛔️ Proposal ${record.id} is ${state} and can't be executed!`;
+    }
+
+    await sleep(pollInterval);
+  }
+};
@@ -0,0 +1,424 @@
+import { Contract, Interface, Result, TransactionDescription } from "ethers";
+import { Provider, utils } from "zksync-ethers";
+
+import { getProvider } from "./utils";
+import {
+  getArtifactName,
+  resolveAddressBook,
+  ProtocolContract
+} from "./addresses";
+import { getMarkets } from "./markets";
+import { getGovernor } from "./proposal";
+import { formatValue, getInterface, PROTOCOL_CONTRACTS } from "./abi";
+
+type Layer = "L1" | "L2";
+
+type ArgumentRow = {
+  name: string;
+  proposed: any;
+  /**
+   * Value currently stored on-chain, for arguments of parameter setters
+   */
+  current?: any;
+};
+
+export type DecodedCall = {
+  layer: Layer;
+  target?: string;
+  contract?: string;
+  method?: string;
+  data: string;
+  arguments: ArgumentRow[];
+  /**
+   * Calls wrapped in this call's arguments (L2 transaction, multicall, governor proposal)
+   */
+  calls: DecodedCall[];
+};
+
+type InnerCall = { target: string; data: string };
+
+type DecoderContext = {
+  provider: Provider;
+  l1Interfaces: [string, Interface][];
+  /**
+   * Artifact name of every known L2 contract, keyed by lowercase address
+   */
+  knownContracts: Record<string, string>;
+};
+
+// Methods carrying other calls, with the index of the argument holding them
+const NESTED_CALLS: Record<
+  string,
+  { argIndex: number; layer: Layer; extract: (args: Result) => InnerCall[] }
+> = {
+  requestL2Transaction: {
+    argIndex: 2,
+    layer: "L2",
+    extract: args => [{ target: args[0], data: args[2] }]
+  },
+  aggregate3: {
+    argIndex: 0,
+    layer: "L2",
+    extract: args =>
+      args[0].map((call: Result) => ({
+        target: call.target,
+        data: call.callData
+      }))
+  },
+  propose: {
+    argIndex: 2,
+    layer: "L1",
+    extract: args =>
+      args[0].map((target: string, i: number) => ({
+        target,
+        data: args[2][i]
+      }))
+  }
+};
+NESTED_CALLS.queue = NESTED_CALLS.execute = NESTED_CALLS.propose;
+
+type CurrentValueReader = (
+  contract: Contract,
+  args: Result
+) => Promise<Record<string, any>>;
+
+const readAssetOracle: CurrentValueReader = async (oracle, [asset]) => {
+  const {
+    heartBeat,
+    aggregator,
+    isVaultAsset,
+    fixedPrice
+  } = await oracle.assetToOracles(asset);
+  return {
+    aggregator,
+    heartBeat,
+    newHeartBeat: heartBeat,
+    isVault: isVaultAsset,
+    fixedPrice
+  };
+};
+
+const readCollateral: CurrentValueReader = async (vault, [asset]) => {
+  const collateral = await vault.getWhiteListedCollateral(
+    await vault.tokenToCollateralIdx(asset)
+  );
+  if (collateral.asset.toLowerCase() !== asset.toLowerCase()) return {};
+  return {
+    newWeight: collateral.weight,
+    newMaxAmount: collateral.maxAmount
+  };
+};
+
+const readReserveToken: CurrentValueReader = async (ua, [token]) => {
+  const numReserveTokens = await ua.getNumReserveTokens();
+  for (let i = 0n; i < numReserveTokens; i++) {
+    const reserveToken = await ua.getReserveToken(i);
+    if (reserveToken.asset.toLowerCase() === token.toLowerCase())
+      return { newMintCap: reserveToken.mintCap };
+  }
+  return {};
+};
+
+const readRole: CurrentValueReader = async (contract, [role, account]) => ({
+  hasRole: await contract.hasRole(role, account)
+});
+
+// Setters whose current value can't be read from a getter named after the parameter
+const CURRENT_VALUE_READERS: Record<string, CurrentValueReader> = {
+  "Oracle.setOracle": readAssetOracle,
+  "Oracle.setHeartBeat": readAssetOracle,
+  "Oracle.setFixedPrice": readAssetOracle,
+  "Vault.changeCollateralWeight": readCollateral,
+  "Vault.changeCollateralMaxAmount": readCollateral,
+  "UA.changeReserveTokenMaxMintCap": readReserveToken
+};
+
+const hasGetter = (contractInterface: Interface, name: string) => {
+  const fragment = contractInterface.getFunction(name);
+  return (
+    fragment !== null &&
+    fragment.inputs.length === 0 &&
+    fragment.stateMutability === "view"
+  );
+};
+
+/**
+ * Reads the current value of the parameters changed by a setter. Structs (e.g. `setParameters`) are read
+ * field by field, `setX(newX)` is read from the `x()` getter
+ */
+const readCurrentValues = async (
+  context: DecoderContext,
+  contractName: string,
+  target: string,
+  tx: TransactionDescription
+): Promise<Record<string, any>> => {
+  const contractInterface = await getInterface(contractName);
+  const contract = new Contract(target, contractInterface, context.provider);
+
+  const reader = CURRENT_VALUE_READERS[`${contractName}.${tx.name}`];
+  if (reader) return reader(contract, tx.args);
+  if (tx.name === "grantRole" || tx.name === "revokeRole")
+    return readRole(contract, tx.args);
+
+  const current: Record<string, any> = {};
+  const inputs = tx.fragment.inputs;
+
+  if (inputs.length === 1 && inputs[0].baseType === "tuple") {
+    for (const component of inputs[0].components!) {
+      if (hasGetter(contractInterface, component.name))
+        current[`${inputs[0].name}.${component.name}`] = await contract[
+          component.name
+        ]();
+    }
+  } else if (inputs.length === 1 && tx.name.startsWith("set")) {
+    const getter = tx.name.charAt(3).toLowerCase() + tx.name.slice(4);
+    if (hasGetter(contractInterface, getter))
+      current[inputs[0].name] = await contract[getter]();
+  }
+
+  return current;
+};
+
+/**
+ * Formats a decoded value, naming the known contracts it refers to
+ */
+const formatArgument = (context: DecoderContext, value: any) => {
+  const formatted = formatValue(value);
+  const contract =
+    typeof formatted === "string" &&
+    context.knownContracts[formatted.toLowerCase()];
+  return contract ? `${formatted} (${contract})` : formatted;
+};
+
+const parseCall = (contractInterface: Interface, data: string) => {
+  try {
+    return contractInterface.parseTransaction({ data });
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Finds the contract a call is made to: by address for known contracts, otherwise by selector
+ */
+const identifyCall = async (
+  context: DecoderContext,
+  layer: Layer,
+  target: string | undefined,
+  data: string
+) => {
+  const candidates: [string, Interface][] =
+    layer === "L1"
+      ? context.l1Interfaces
+      : await Promise.all(
+          (target && context.knownContracts[target.toLowerCase()]
+            ? [context.knownContracts[target.toLowerCase()]]
+            : PROTOCOL_CONTRACTS
+          ).map(async name => [name, await getInterface(name)] as const)
+        );
+
+  for (const [contract, contractInterface] of candidates) {
+    const tx = parseCall(contractInterface, data);
+    if (tx) return { contract, tx };
+  }
+};
+
+/**
+ * Recursively decodes a call and the calls nested in it
+ */
+const decodeCall = async (
+  context: DecoderContext,
+  layer: Layer,
+  target: string | undefined,
+  data: string
+): Promise<DecodedCall> => {
+  const identified = await identifyCall(context, layer, target, data);
+  if (!identified) return { layer, target, data, arguments: [], calls: [] };
+
+  const { contract, tx } = identified;
+  const nested = NESTED_CALLS[tx.name];
+  const current =
+    layer === "L2" && target && !nested
+      ? await readCurrentValues(context, contract, target, tx).catch(
+          () => ({} as Record<string, any>)
+        )
+      : {};
+
+  const rows: ArgumentRow[] = [];
+  tx.fragment.inputs.forEach((input, i) => {
+    const value = tx.args[i];
+    if (nested?.argIndex === i) {
+      rows.push({ name: input.name, proposed: "_decoded below_" });
+    } else if (input.baseType === "tuple") {
+      input.components!.forEach((component, j) => {
+        const name = `${input.name}.${component.name}`;
+        rows.push({
+          name,
+          proposed: tx.args[i][j],
+          current: current[name]
+        });
+      });
+    } else {
+      rows.push({
+        name: input.name,
+        proposed: value,
+        current: current[input.name]
+      });
+    }
+  });
+  if ("hasRole" in current)
+    rows.push({
+      name: "hasRole",
+      proposed: tx.name === "grantRole",
+      current: current.hasRole
+    });
+
+  const calls: DecodedCall[] = [];
+  if (nested) {
+    for (const call of nested.extract(tx.args)) {
+      calls.push(
+        await decodeCall(context, nested.layer, call.target, call.data)
+      );
+    }
+  }
+
+  return {
+    layer,
+    target,
+    contract,
+    method: tx.name,
+    data,
+    arguments: rows.map(({ name, proposed, current }) => ({
+      name,
+      proposed: formatArgument(context, proposed),
+      current:
+        current === undefined ? undefined : formatArgument(context, current)
+    })),
+    calls
+  };
+};
+
+const createDecoderContext = async (): Promise<DecoderContext> => {
+  const provider = getProvider();
+  const governor = await getGovernor(provider);
+
+  const knownContracts: Record<string, string> = {};
+  for (const [name, address] of Object.entries(
+    await resolveAddressBook(provider)
+  )) {
+    knownContracts[address!.toLowerCase()] = getArtifactName(
+      name as ProtocolContract
+    );
+  }
+  for (const market of await getMarkets(provider)) {
+    knownContracts[market.perpetual.toLowerCase()] = "Perpetual";
+    knownContracts[market.vBase.toLowerCase()] = "VBase";
+    knownContracts[market.vQuote.toLowerCase()] = "VQuote";
+  }
+
+  return {
+    provider,
+    l1Interfaces: [
+      ["Governor", governor.interface],
+      ["ZkSync", utils.ZKSYNC_MAIN_ABI]
+    ],
+    knownContracts
+  };
+};
+
+/**
+ * Decodes the L1 calls of a governor proposal
+ */
+export const decodeProposal = async (
+  targets: string[],
+  calldatas: string[]
+) => {
+  const context = await createDecoderContext();
+  const calls: DecodedCall[] = [];
+  for (const [i, target] of targets.entries()) {
+    calls.push(await decodeCall(context, "L1", target, calldatas[i]));
+  }
+  return calls;
+};
+
+/**
+ * Decodes raw calldata, e.g. a `propose`, `requestL2Transaction` or `aggregate3` call. L1 ABIs are tried first
+ */
+export const decodeCalldata = async (data: string, target?: string) => {
+  const context = await createDecoderContext();
+  const l1Call = await decodeCall(context, "L1", target, data);
+  return l1Call.method ? l1Call : decodeCall(context, "L2", target, data);
+};
+
+const formatCell = (value: any) =>
+  value === undefined
+    ? ""
+    : `\`${typeof value === "string" ? value : JSON.stringify(value)}\``;
+
+const renderCall = (
+  call: DecodedCall,
+  position: string,
+  depth: number
+): string[] => {
+  const heading = "#".repeat(Math.min(depth, 6));
+  const target = call.target ?? "unknown target";
+
+  if (!call.method)
+    return [
+      `${heading} ${position}. ⚠️ Unknown call to ${target} (${call.layer})`,
+      "",
+      "```",
+      call.data,
+      "```",
+      ""
+    ];
+
+  const lines = [
+    `${heading} ${position}. \`${call.contract}.${call.method}\` (${call.layer})`,
+    "",
+    `Target: \`${target}\``,
+    ""
+  ];
+
+  if (call.arguments.length > 0) {
+    const hasCurrent = call.arguments.some(row => row.current !== undefined);
+    lines.push(
+      hasCurrent ? "| Argument | Current | Proposed |" : "| Argument | Value |",
+      hasCurrent ? "| --- | --- | --- |" : "| --- | --- |"
+    );
+    for (const { name, current, proposed } of call.arguments) {
+      const changed =
+        current !== undefined &&
+        JSON.stringify(current) !== JSON.stringify(proposed);
+      const proposedCell =
+        proposed === "_decoded below_" ? proposed : formatCell(proposed);
+      lines.push(
+        hasCurrent
+          ? `| ${name} | ${formatCell(current)} | ${proposedCell}${
+              changed ? " ✏️" : ""
+            } |`
+          : `| ${name} | ${proposedCell} |`
+      );
+    }
+    lines.push("");
+  }
+
+  call.calls.forEach((inner, i) =>
+    lines.push(...renderCall(inner, `${position}.${i + 1}`, depth + 1))
+  );
+  return lines;
+};
+
+/**
+ * Renders decoded calls as Markdown, ready to be pasted into a governance forum post
+ */
+export const renderProposalReport = (
+  title: string,
+  calls: DecodedCall[],
+  description?: string
+) => {
+  const lines = [`# ${title}`, ""];
+  if (description) lines.push(`> ${description}`, "");
+  calls.forEach((call, i) => lines.push(...renderCall(call, `${i + 1}`, 2)));
+  return lines.join("\n");
+};
@@ -0,0 +1,291 @@
+import fs from "fs";
+import path from "path";
+import { Contract, ContractRunner, Interface, id } from "ethers";
+import { Wallet, utils } from "zksync-ethers";
+import * as hre from "hardhat";
+
+import { getWallet, getL1Wallet } from "./utils";
+import {
+  getArtifactName,
+  getProtocolAddresses,
+  ProtocolContract
+} from "./addresses";
+import { getNetworkProfile } from "./networks";
+
+/**
+ * Contract an L2 action is sent to: either a contract of the address book, or any
+ * other contract (e.g. a Perpetual) given by its artifact name and address
+ */
+export type ActionTarget =
+  | ProtocolContract
+  | { contract: string; address: string };
+
+/**
+ * A single call executed on L2 by the OwnedMulticall3, on behalf of the L1 timelock
+ */
+export type L2Action = {
+  contract: string;
+  target: string;
+  callData: string;
+  description: string;
+};
+
+export type GovernanceProposal = {
+  targets: string[];
+  values: bigint[];
+  calldatas: string[];
+  description: string;
+  descriptionHash: string;
+  /**
+   * Calls delivered to the OwnedMulticall3 on L2 once the proposal is executed
+   */
+  actions: L2Action[];
+  multicallData: string;
+  l2GasLimit: bigint;
+};
+
+/**
+ * Progress of a submitted proposal, persisted under `deployments/<network>/proposals` so that
+ * tracking it can be resumed from another run
+ */
+export type ProposalRecord = {
+  id: string;
+  network: string;
+  description: string;
+  descriptionHash: string;
+  targets: string[];
+  values: string[];
+  calldatas: string[];
+  /**
+   * Last observed governor state, or "L2Confirmed"/"L2Failed" once the L2 transaction was processed
+   */
+  state: string;
+  txHashes: {
+    propose: string;
+    vote?: string;
+    queue?: string;
+    execute?: string;
+    l2?: string;
+  };
+  updatedAt: string;
+};
+
+type BuildProposalOptions = {
+  wallet?: Wallet;
+  l1Wallet?: Wallet;
+  /**
+   * Factor applied to the current L1 gas price when computing the L2 transaction base cost,
+   * as the proposal executes days after being created. Defaults to 3
+   */
+  gasPriceMultiplier?: bigint;
+};
+
+/**
+ * Encodes a call to `method` of `target` as an L2 action
+ */
+export const l2Action = async (
+  target: ActionTarget,
+  method: string,
+  args: any[] = []
+): Promise<L2Action> => {
+  const { contract, address } =
+    typeof target === "string"
+      ? {
+          contract: getArtifactName(target),
+          address: (await getProtocolAddresses(target))[target]
+        }
+      : target;
+
+  const artifact = await hre.artifacts.readArtifact(contract);
+  const contractInterface = new Interface(artifact.abi);
+
+  return {
+    contract,
+    target: address,
+    callData: contractInterface.encodeFunctionData(method, args),
+    description: `${contract}(${address}).${method}`
+  };
+};
+
+export const getGovernor = async (runner: ContractRunner = getL1Wallet()) => {
+  const governorArtifact = await hre.artifacts.readArtifact("IGovernor");
+  return new Contract(
+    getNetworkProfile().addresses.L1_GOVERNOR,
+    [
+      ...governorArtifact.abi,
+      {
+        type: "function",
+        name: "queue",
+        inputs: [
+          { name: "targets", type: "address[]", internalType: "address[]" },
+          { name: "values", type: "uint256[]", internalType: "uint256[]" },
+          { name: "calldatas", type: "bytes[]", internalType: "bytes[]" },
+          { name: "descriptionHash", type: "bytes32", internalType: "bytes32" }
+        ],
+        outputs: [{ name: "", type: "uint256", internalType: "uint256" }],
+        stateMutability: "nonpayable"
+      },
+      {
+        type: "function",
+        name: "proposalEta",
+        inputs: [
+          { name: "proposalId", type: "uint256", internalType: "uint256" }
+        ],
+        outputs: [{ name: "", type: "uint256", internalType: "uint256" }],
+        stateMutability: "view"
+      }
+    ],
+    runner
+  );
+};
+
+/**
+ * Encodes the multicall payload the L1 timelock delivers to the OwnedMulticall3
+ */
+export const encodeMulticall = async (actions: L2Action[]) => {
+  const multicallArtifact = await hre.artifacts.readArtifact("OwnedMulticall3");
+  const multicallInterface = new Interface(multicallArtifact.abi);
+  return multicallInterface.encodeFunctionData("aggregate3", [
+    actions.map(({ target, callData }) => ({
+      target,
+      callData,
+      allowFailure: false
+    }))
+  ]);
+};
+
+/**
+ * Wraps a list of L2 actions into a single L1 governor proposal, which sends them
+ * to the OwnedMulticall3 through zkSync's `requestL2Transaction`
+ */
+export const buildProposal = async (
+  actions: L2Action[],
+  description: string,
+  options?: BuildProposalOptions
+): Promise<GovernanceProposal> => {
+  if (actions.length === 0) throw "⛔️ A proposal needs at least one action!";
+
+  const wallet = options?.wallet ?? getWallet();
+  const l1Wallet = options?.l1Wallet ?? getL1Wallet();
+  const profile = getNetworkProfile();
+  const { OWNED_MULTICALL } = await getProtocolAddresses("OWNED_MULTICALL");
+
+  const multicallData = await encodeMulticall(actions);
+
+  const zkSyncAddress = await wallet.provider.getMainContractAddress();
+  const zkSyncContract = new Contract(
+    zkSyncAddress,
+    utils.ZKSYNC_MAIN_ABI,
+    l1Wallet
+  );
+  const gasPrice =
+    (await l1Wallet.provider.getFeeData()).gasPrice *
+    (options?.gasPriceMultiplier ?? 3n);
+  const l2GasLimit = await wallet.provider.estimateL1ToL2Execute({
+    contractAddress: OWNED_MULTICALL,
+    calldata: multicallData,
+    caller: utils.applyL1ToL2Alias(profile.addresses.L1_TIMELOCK)
+  });
+  const baseCost: bigint = await zkSyncContract.l2TransactionBaseCost(
+    gasPrice,
+    l2GasLimit,
+    utils.REQUIRED_L1_TO_L2_GAS_PER_PUBDATA_LIMIT
+  );
+
+  const l2TransactionData = zkSyncContract.interface.encodeFunctionData(
+    "requestL2Transaction",
+    [
+      OWNED_MULTICALL,
+      0,
+      multicallData,
+      l2GasLimit,
+      utils.REQUIRED_L1_TO_L2_GAS_PER_PUBDATA_LIMIT,
+      [],
+      OWNED_MULTICALL
+    ]
+  );
+
+  return {
+    targets: [zkSyncAddress],
+    values: [baseCost],
+    calldatas: [l2TransactionData],
+    description,
+    descriptionHash: id(description),
+    actions,
+    multicallData,
+    l2GasLimit
+  };
+};
+
+/**
+ * Submits the proposal to the L1 governor and returns its id
+ */
+export const submitProposal = async (
+  proposal: GovernanceProposal,
+  governor?: Contract
+): Promise<bigint> => {
+  governor = governor ?? (await getGovernor());
+  const { targets, values, calldatas, description } = proposal;
+
+  const proposalId = await governor.propose.staticCall(
+    targets,
+    values,
+    calldatas,
+    description
+  );
+  const proposalTx = await governor.propose(
+    targets,
+    values,
+    calldatas,
+    description
+  );
+  await proposalTx.wait();
+
+  console.log(`Proposal ${proposalId} created with params: `, {
+    targets,
+    values,
+    calldatas,
+    description
+  });
+
+  saveProposalRecord({
+    id: proposalId.toString(),
+    network: hre.network.name,
+    description,
+    descriptionHash: proposal.descriptionHash,
+    targets,
+    values: values.map(value => value.toString()),
+    calldatas,
+    state: "Pending",
+    txHashes: { propose: proposalTx.hash },
+    updatedAt: new Date().toISOString()
+  });
+
+  return proposalId;
+};
+
+export const getProposalRecordPath = (
+  proposalId: bigint | string,
+  network = hre.network.name
+) =>
+  path.join(
+    hre.config.paths.root,
+    "deployments",
+    network,
+    "proposals",
+    `${proposalId}.json`
+  );
+
+export const loadProposalRecord = (proposalId: bigint | string) => {
+  const recordPath = getProposalRecordPath(proposalId);
+  if (!fs.existsSync(recordPath))
+    throw `⛔️ No record of proposal ${proposalId} found at ${recordPath}!`;
+
+  return JSON.parse(fs.readFileSync(recordPath, "utf8")) as ProposalRecord;
+};
+
+export const saveProposalRecord = (record: ProposalRecord) => {
+  const recordPath = getProposalRecordPath(record.id, record.network);
+  fs.mkdirSync(path.dirname(recordPath), { recursive: true });
+  fs.writeFileSync(recordPath, JSON.stringify(record, null, 2) + "\n");
+};
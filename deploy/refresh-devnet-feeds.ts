@@ -0,0 +1,62 @@
+import { Contract, Interface, parseUnits } from "ethers";
+import * as hre from "hardhat";
+
+import { getWallet, LOCAL_RICH_WALLETS } from "./utils";
+import { getManifestPath, loadManifest } from "./manifest";
+import { refreshPriceFeed } from "./devnet";
+
+const AGGREGATOR_MOCK = new Interface([
+  "function latestAnswer() view returns (int256)",
+  "function updateAnswer(int256 answer)"
+]);
+
+const FEEDS = ["USDCAggregatorMock", "ETHAggregatorMock"];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Posts the latest answer of the devnet price feeds again, as the Oracle rejects them `heartBeat` seconds after their
+ * last update. DEVNET_ETH_PRICE sets a new ETH price, and DEVNET_FEED_INTERVAL keeps refreshing them every so many ms
+ */
+export default async function() {
+  const wallet = getWallet(
+    process.env.WALLET_PRIVATE_KEY
+      ? undefined
+      : LOCAL_RICH_WALLETS[0].privateKey
+  );
+  const manifest = await loadManifest(wallet);
+  const aggregators = FEEDS.map(key => {
+    if (!manifest.contracts[key])
+      throw `⛔️ No ${key} in ${getManifestPath(
+        hre.network.name
+      )}, run deploy-devnet.ts first!`;
+    return new Contract(
+      manifest.contracts[key].address,
+      AGGREGATOR_MOCK,
+      wallet
+    );
+  });
+  const answers: (bigint | undefined)[] = [
+    undefined,
+    process.env.DEVNET_ETH_PRICE
+      ? parseUnits(process.env.DEVNET_ETH_PRICE, 8)
+      : undefined
+  ];
+
+  const refresh = async () => {
+    for (const [i, aggregator] of aggregators.entries()) {
+      await refreshPriceFeed(aggregator, answers[i]);
+      console.log(`✅ ${FEEDS[i]} answered ${await aggregator.latestAnswer()}`);
+    }
+  };
+
+  const interval = Number(process.env.DEVNET_FEED_INTERVAL || "0");
+  if (interval === 0) {
+    await refresh();
+    return;
+  }
+  for (;;) {
+    await refresh();
+    await sleep(interval);
+  }
+}
@@ -0,0 +1,37 @@
+import fs from "fs";
+import { getAddress } from "ethers";
+
+import { getProvider } from "./utils";
+import { getAccountRisk, renderAccountRisk } from "./account-risk";
+
+export default async function() {
+  const account = process.env.REPORT_ACCOUNT;
+  if (!account) {
+    throw "⛔️ Account to report on (REPORT_ACCOUNT) wasn't found in .env file!";
+  }
+  const format = process.env.REPORT_FORMAT || "table";
+  if (format !== "table" && format !== "json")
+    throw `⛔️ REPORT_FORMAT must be "table" or "json", not "${format}"!`;
+
+  const risk = await getAccountRisk(
+    getProvider(),
+    getAddress(account),
+    process.env.REPORT_BLOCK ? Number(process.env.REPORT_BLOCK) : "latest"
+  );
+  const report =
+    format === "json"
+      ? JSON.stringify(
+          risk,
+          (_key, value) =>
+            typeof value === "bigint" ? value.toString() : value,
+          2
+        )
+      : renderAccountRisk(risk);
+
+  if (process.env.REPORT_FILE) {
+    fs.writeFileSync(process.env.REPORT_FILE, report + "\n");
+    console.log(`Report written to ${process.env.REPORT_FILE}`);
+  } else {
+    console.log(report);
+  }
+}
@@ -0,0 +1,302 @@
+import fs from "fs";
+import path from "path";
+import {
+  BlockTag,
+  Contract,
+  Provider,
+  concat,
+  getAddress,
+  keccak256,
+  solidityPackedKeccak256,
+  toBeHex,
+  zeroPadValue
+} from "ethers";
+import * as hre from "hardhat";
+
+import { getInterface } from "./abi";
+import { ProtocolAddresses } from "./addresses";
+import { findDeploymentBlock, getLogsInRange } from "../sdk/events";
+
+const MAX_INT128 = 2n ** 127n - 1n;
+const MIN_INT128 = -(2n ** 127n);
+
+export type SettlementAddresses = Pick<
+  ProtocolAddresses,
+  "CLEARING_HOUSE" | "CLEARING_HOUSE_VIEWER"
+>;
+
+/**
+ * Settlement value of an account across the delisted markets, posted to the PerpSettlement as an int128. It is what
+ * closing the positions would have settled: the pending PnL and the funding payments not settled yet
+ */
+export type SettlementEntry = {
+  account: string;
+  pnl: bigint;
+};
+
+/**
+ * Content of a settlement file, integers being serialized as strings
+ */
+export type SettlementFile = {
+  network: string;
+  clearingHouse: string;
+  markets: { idx: string; perpetual: string }[];
+  /**
+   * Block the PnL was read at
+   */
+  block: number;
+  root: string;
+  accounts: Record<string, { pnl: string; proof: string[] }>;
+};
+
+/**
+ * Leaf of an account, as hashed by `PerpSettlement.verifyPnL`
+ */
+export const getSettlementLeaf = ({ account, pnl }: SettlementEntry) =>
+  solidityPackedKeccak256(["address", "int128"], [account, pnl]);
+
+// OpenZeppelin's MerkleProof hashes the children of a node in ascending order
+const hashPair = (a: string, b: string) =>
+  keccak256(
+    a.toLowerCase() < b.toLowerCase() ? concat([a, b]) : concat([b, a])
+  );
+
+/**
+ * Builds the merkle tree of the settlement values. Leaves are sorted so that the root doesn't depend on the
+ * order of the entries, and the last node of a level with an odd number of nodes is moved up as is
+ */
+export const buildSettlementTree = (entries: SettlementEntry[]) => {
+  if (entries.length === 0) throw "⛔️ No account to settle!";
+  for (const { account, pnl } of entries) {
+    if (pnl > MAX_INT128 || pnl < MIN_INT128)
+      throw `⛔️ PnL ${pnl} of ${account} doesn't fit an int128!`;
+  }
+
+  const leaves = entries
+    .map(entry => ({
+      account: getAddress(entry.account),
+      leaf: getSettlementLeaf(entry)
+    }))
+    .sort((a, b) => (a.leaf < b.leaf ? -1 : a.leaf > b.leaf ? 1 : 0));
+
+  const levels = [leaves.map(({ leaf }) => leaf)];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const parents: string[] = [];
+    for (let i = 0; i < level.length; i += 2)
+      parents.push(
+        i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]
+      );
+    levels.push(parents);
+  }
+
+  const proofs: Record<string, string[]> = {};
+  leaves.forEach(({ account }, leafIndex) => {
+    const proof: string[] = [];
+    let index = leafIndex;
+    for (const level of levels.slice(0, -1)) {
+      const sibling = index ^ 1;
+      if (sibling < level.length) proof.push(level[sibling]);
+      index >>= 1;
+    }
+    proofs[account] = proof;
+  });
+
+  return { root: levels[levels.length - 1][0], proofs };
+};
+
+/**
+ * Checks a proof the same way `PerpSettlement.verifyPnL` does
+ */
+export const verifySettlementProof = (
+  root: string,
+  entry: SettlementEntry,
+  proof: string[]
+) => proof.reduce(hashPair, getSettlementLeaf(entry)) === root;
+
+/**
+ * Accounts which ever traded or provided liquidity in a market up to `toBlock`, from the `ChangePosition` and
+ * `LiquidityProvided` events of the ClearingHouse
+ */
+export const getMarketAccounts = async (
+  provider: Provider,
+  clearingHouseAddress: string,
+  idx: bigint,
+  fromBlock: number,
+  toBlock: number
+) => {
+  const clearingHouseInterface = await getInterface("ClearingHouse");
+  const logs = await getLogsInRange(
+    provider,
+    {
+      address: clearingHouseAddress,
+      topics: [
+        [
+          clearingHouseInterface.getEvent("ChangePosition")!.topicHash,
+          clearingHouseInterface.getEvent("LiquidityProvided")!.topicHash
+        ],
+        zeroPadValue(toBeHex(idx), 32)
+      ]
+    },
+    fromBlock,
+    toBlock
+  );
+  return new Set(
+    logs.map(eventLog => {
+      const event = clearingHouseInterface.parseLog({
+        topics: [...eventLog.topics],
+        data: eventLog.data
+      })!;
+      return getAddress(
+        event.name === "ChangePosition"
+          ? event.args.user
+          : event.args.liquidityProvider
+      );
+    })
+  );
+};
+
+/**
+ * Reads the settlement value of every account with an open trader or LP position in the markets at `block`, summed
+ * over the markets. `block` must precede the delisting of the markets for them to still be listed. For each market
+ * the value is made of:
+ * - `Perpetual.getPendingPnL`: the unrealized PnL of the trader position, and for LPs the unrealized PnL of the
+ *   position left by withdrawing the liquidity plus the trading fees earned
+ * - `ClearingHouseViewer.getFundingPayments`: the funding payments of the trader and LP positions since they were
+ *   last settled
+ */
+export const snapshotSettlementPnl = async (
+  provider: Provider,
+  addresses: SettlementAddresses,
+  idxs: bigint[],
+  block: number,
+  fromBlock?: number
+) => {
+  const blockTag: BlockTag = block;
+  const clearingHouseAddress = addresses.CLEARING_HOUSE;
+  const clearingHouse = new Contract(
+    clearingHouseAddress,
+    await getInterface("ClearingHouse"),
+    provider
+  );
+  const viewer = new Contract(
+    addresses.CLEARING_HOUSE_VIEWER,
+    await getInterface("ClearingHouseViewer"),
+    provider
+  );
+  const perpetualInterface = await getInterface("Perpetual");
+  fromBlock =
+    fromBlock ?? (await findDeploymentBlock(provider, clearingHouseAddress));
+
+  const markets: { idx: bigint; perpetual: string }[] = [];
+  const pnls = new Map<string, bigint>();
+  for (const idx of idxs) {
+    const perpetualAddress: string = await clearingHouse.perpetuals(idx, {
+      blockTag
+    });
+    if (BigInt(perpetualAddress) === 0n)
+      throw `⛔️ Market ${idx} isn't listed at block ${block}!`;
+    const perpetual = new Contract(
+      perpetualAddress,
+      perpetualInterface,
+      provider
+    );
+    markets.push({ idx, perpetual: getAddress(perpetualAddress) });
+
+    const accounts = await getMarketAccounts(
+      provider,
+      clearingHouseAddress,
+      idx,
+      fromBlock,
+      block
+    );
+    for (const account of accounts) {
+      const isOpen =
+        (await perpetual.isTraderPositionOpen(account, { blockTag })) ||
+        (await perpetual.isLpPositionOpen(account, { blockTag }));
+      if (!isOpen) continue;
+
+      const pnl: bigint = await perpetual.getPendingPnL(account, { blockTag });
+      const fundingPayments: bigint = await viewer.getFundingPayments(
+        idx,
+        account,
+        { blockTag }
+      );
+      pnls.set(account, (pnls.get(account) ?? 0n) + pnl + fundingPayments);
+    }
+  }
+
+  const entries: SettlementEntry[] = [...pnls].map(([account, pnl]) => ({
+    account,
+    pnl
+  }));
+  return { markets, entries };
+};
+
+/**
+ * Snapshots the settlement values of the markets at `block` and builds the merkle tree, returning the root and the proof of
+ * every account
+ */
+export const generateSettlement = async (
+  provider: Provider,
+  addresses: SettlementAddresses,
+  idxs: bigint[],
+  block: number,
+  fromBlock?: number
+): Promise<SettlementFile> => {
+  const { markets, entries } = await snapshotSettlementPnl(
+    provider,
+    addresses,
+    idxs,
+    block,
+    fromBlock
+  );
+  const { root, proofs } = buildSettlementTree(entries);
+  for (const entry of entries) {
+    if (!verifySettlementProof(root, entry, proofs[entry.account]))
+      throw `⛔️ Invalid proof generated for ${entry.account}!`;
+  }
+
+  return {
+    network: hre.network.name,
+    clearingHouse: getAddress(addresses.CLEARING_HOUSE),
+    markets: markets.map(({ idx, perpetual }) => ({
+      idx: idx.toString(),
+      perpetual
+    })),
+    block,
+    root,
+    accounts: Object.fromEntries(
+      entries.map(({ account, pnl }) => [
+        account,
+        { pnl: pnl.toString(), proof: proofs[account] }
+      ])
+    )
+  };
+};
+
+/**
+ * Path of a settlement file, named after the snapshot block or the settled market
+ */
+export const getSettlementFilePath = (
+  name: string,
+  network = hre.network.name
+) =>
+  path.join(
+    hre.config.paths.root,
+    "deployments",
+    network,
+    "settlement",
+    `${name}.json`
+  );
+
+export const writeSettlementFile = (
+  filePath: string,
+  settlement: SettlementFile
+) => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(settlement, null, 2) + "\n");
+};
+
+export const loadSettlementFile = (filePath: string): SettlementFile =>
+  JSON.parse(fs.readFileSync(filePath, "utf8"));
@@ -0,0 +1,218 @@
+import { Provider, utils } from "zksync-ethers";
+import { FunctionFragment, toBeHex } from "ethers";
+import * as hre from "hardhat";
+
+import { getProtocolAddresses } from "./addresses";
+import { getNetworkProfile } from "./networks";
+import { L2Action, encodeMulticall } from "./proposal";
+import {
+  DecodedEvent,
+  decodeLog,
+  decodeRevertData,
+  formatValue,
+  getInterface
+} from "./abi";
+
+export type CallSimulation = {
+  action: L2Action;
+  success: boolean;
+  revertReason?: string;
+};
+
+export type StateDiff = {
+  contract: string;
+  address: string;
+  getter: string;
+  before: string;
+  after: string;
+};
+
+export type SimulationReport = {
+  success: boolean;
+  calls: CallSimulation[];
+  events: DecodedEvent[];
+  stateDiffs: StateDiff[];
+};
+
+type Snapshot = Record<string, Record<string, string>>;
+
+/**
+ * Reads every parameterless getter of the targeted contracts, so changes made by the proposal can be reported
+ */
+const snapshotState = async (provider: Provider, actions: L2Action[]) => {
+  const snapshot: Snapshot = {};
+
+  for (const { contract, target } of actions) {
+    const key = `${contract}:${target}`;
+    if (snapshot[key]) continue;
+    snapshot[key] = {};
+
+    const contractInterface = await getInterface(contract);
+    const getters: FunctionFragment[] = [];
+    contractInterface.forEachFunction(fragment => {
+      if (fragment.stateMutability === "view" && fragment.inputs.length === 0)
+        getters.push(fragment);
+    });
+
+    for (const getter of getters) {
+      const result = await provider
+        .call({
+          to: target,
+          data: contractInterface.encodeFunctionData(getter)
+        })
+        .then(data =>
+          JSON.stringify(
+            formatValue(contractInterface.decodeFunctionResult(getter, data))
+          )
+        )
+        .catch(() => "reverted");
+      snapshot[key][getter.name] = result;
+    }
+  }
+
+  return snapshot;
+};
+
+const diffSnapshots = (before: Snapshot, after: Snapshot) => {
+  const stateDiffs: StateDiff[] = [];
+  for (const [key, getters] of Object.entries(before)) {
+    const [contract, address] = key.split(":");
+    for (const [getter, value] of Object.entries(getters)) {
+      if (after[key][getter] !== value)
+        stateDiffs.push({
+          contract,
+          address,
+          getter,
+          before: value,
+          after: after[key][getter]
+        });
+    }
+  }
+  return stateDiffs;
+};
+
+/**
+ * Executes the multicall a proposal delivers to L2 on a local fork of the active network, impersonating
+ * the aliased L1 timelock. Meant to run against `hardhat node-zksync --fork <network url>`, which
+ * supports account impersonation
+ */
+export const simulateProposal = async (
+  actions: L2Action[],
+  rpcUrl = process.env.SIMULATION_RPC_URL ?? "http://127.0.0.1:8011"
+): Promise<SimulationReport> => {
+  const provider = new Provider(rpcUrl);
+  const { OWNED_MULTICALL } = await getProtocolAddresses("OWNED_MULTICALL");
+  const timelockAlias = utils.applyL1ToL2Alias(
+    getNetworkProfile().addresses.L1_TIMELOCK
+  );
+
+  await provider.send("hardhat_impersonateAccount", [timelockAlias]);
+  await provider.send("hardhat_setBalance", [
+    timelockAlias,
+    toBeHex(10n ** 18n)
+  ]);
+
+  // Run every call with failures allowed first, to find out which ones revert and why
+  const multicallInterface = await getInterface("OwnedMulticall3");
+  const tryCalls = multicallInterface.encodeFunctionData("aggregate3", [
+    actions.map(({ target, callData }) => ({
+      target,
+      callData,
+      allowFailure: true
+    }))
+  ]);
+  const [results] = multicallInterface.decodeFunctionResult(
+    "aggregate3",
+    await provider
+      .call({ from: timelockAlias, to: OWNED_MULTICALL, data: tryCalls })
+      .catch(async error => {
+        throw `⛔️ Multicall reverted as a whole: ${await decodeRevertData(
+          error.data
+        )}. Is ${timelockAlias} the owner of the OwnedMulticall3 on the fork?`;
+      })
+  );
+
+  const calls: CallSimulation[] = [];
+  for (const [i, action] of actions.entries()) {
+    const { success, returnData } = results[i];
+    calls.push({
+      action,
+      success,
+      revertReason: success ? undefined : await decodeRevertData(returnData)
+    });
+  }
+
+  if (calls.some(call => !call.success))
+    return { success: false, calls, events: [], stateDiffs: [] };
+
+  // Then execute the actual payload to collect the events and the resulting state
+  const before = await snapshotState(provider, actions);
+  const txHash = await provider.send("eth_sendTransaction", [
+    {
+      from: timelockAlias,
+      to: OWNED_MULTICALL,
+      data: await encodeMulticall(actions)
+    }
+  ]);
+  const receipt = await provider.waitForTransaction(txHash);
+  const after = await snapshotState(provider, actions);
+
+  const events: DecodedEvent[] = [];
+  for (const log of receipt.logs) {
+    const event = await decodeLog(log);
+    if (event) events.push(event);
+  }
+
+  return {
+    success: receipt.status === 1,
+    calls,
+    events,
+    stateDiffs: diffSnapshots(before, after)
+  };
+};
+
+export const printSimulationReport = (report: SimulationReport) => {
+  console.log(`\nSimulation of the proposal on a fork of ${hre.network.name}:`);
+  for (const { action, success, revertReason } of report.calls) {
+    console.log(
+      ` ${success ? "✅" : "❌"} ${action.description}${
+        success ? "" : `: ${revertReason}`
+      }`
+    );
+  }
+
+  if (report.events.length > 0) {
+    console.log("\nEmitted events:");
+    for (const { contract, address, name, args } of report.events) {
+      console.log(` - ${contract}(${address}).${name}`, args);
+    }
+  }
+
+  if (report.stateDiffs.length > 0) {
+    console.log("\nState changes:");
+    for (const {
+      contract,
+      address,
+      getter,
+      before,
+      after
+    } of report.stateDiffs) {
+      console.log(
+        ` - ${contract}(${address}).${getter}: ${before} -> ${after}`
+      );
+    }
+  }
+};
+
+/**
+ * Simulates the actions and throws if any of them would revert
+ */
+export const assertProposalSucceeds = async (actions: L2Action[]) => {
+  const report = await simulateProposal(actions);
+  printSimulationReport(report);
+
+  if (!report.success)
+    throw "⛔️ Proposal would revert on L2, aborting before submission!";
+
+  return report;
+};
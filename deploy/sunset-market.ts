@@ -0,0 +1,275 @@
+import fs from "fs";
+import { Contract } from "ethers";
+import { utils, Wallet } from "zksync-ethers";
+
+import { getProvider, getWallet } from "./utils";
+import { getProtocolAddresses } from "./addresses";
+import { getNetworkProfile } from "./networks";
+import { findMarketByBaseCurrency, getPerpetual } from "./markets";
+import { findDeploymentBlock } from "../sdk/events";
+import {
+  deployOnce,
+  DeploymentManifest,
+  getManifestPath,
+  loadManifest,
+  runOnce
+} from "./manifest";
+import {
+  generateSettlement,
+  getSettlementFilePath,
+  loadSettlementFile,
+  writeSettlementFile
+} from "./settlement";
+import { getPendingSettlements, getSunsetStatus, SunsetStatus } from "./sunset";
+import { buildProposal, l2Action, submitProposal } from "./proposal";
+import { trackProposal } from "./proposal-lifecycle";
+import { assertProposalSucceeds } from "./simulation";
+
+const logStatus = (status: SunsetStatus) => {
+  console.log(` - paused: ${status.paused}`);
+  console.log(` - accounts which ever had a position: ${status.accounts}`);
+  console.log(` - open trader positions: ${status.openTraderPositions.length}`);
+  console.log(` - open LP positions: ${status.openLpPositions.length}`);
+};
+
+/**
+ * Deploys the PerpSettlement holding `root`, and hands its roles over to governance and the emergency admin
+ */
+const deployPerpSettlement = async (
+  wallet: Wallet,
+  manifest: DeploymentManifest,
+  settlementKey: string,
+  args: any[],
+  root: string
+) => {
+  const perpSettlement: Contract = await deployOnce(
+    manifest,
+    "PerpSettlement",
+    args,
+    { key: settlementKey, wallet }
+  );
+  const settlementAddress = await perpSettlement.getAddress();
+  if ((await perpSettlement.merkleRoot()) !== root)
+    throw `⛔️ The PerpSettlement at ${settlementAddress} holds another merkle root! Remove "${settlementKey}" from ${getManifestPath()} to deploy a new one`;
+
+  const { OWNED_MULTICALL } = await getProtocolAddresses("OWNED_MULTICALL");
+  const profile = getNetworkProfile();
+  const governanceRole = await perpSettlement.GOVERNANCE();
+  const emergencyAdminRole = await perpSettlement.EMERGENCY_ADMIN();
+  await runOnce(
+    manifest,
+    `${settlementKey}.grantRole(GOVERNANCE)`,
+    () => perpSettlement.grantRole(governanceRole, OWNED_MULTICALL),
+    () => perpSettlement.hasRole(governanceRole, OWNED_MULTICALL)
+  );
+  await runOnce(
+    manifest,
+    `${settlementKey}.grantRole(EMERGENCY_ADMIN)`,
+    () =>
+      perpSettlement.grantRole(
+        emergencyAdminRole,
+        profile.addresses.EMERGENCY_ADMIN
+      ),
+    () =>
+      perpSettlement.hasRole(
+        emergencyAdminRole,
+        profile.addresses.EMERGENCY_ADMIN
+      )
+  );
+  await runOnce(
+    manifest,
+    `${settlementKey}.renounceRole(GOVERNANCE)`,
+    () => perpSettlement.renounceRole(governanceRole, wallet.address),
+    async () => !(await perpSettlement.hasRole(governanceRole, wallet.address))
+  );
+  await runOnce(
+    manifest,
+    `${settlementKey}.renounceRole(EMERGENCY_ADMIN)`,
+    () => perpSettlement.renounceRole(emergencyAdminRole, wallet.address),
+    async () =>
+      !(await perpSettlement.hasRole(emergencyAdminRole, wallet.address))
+  );
+  return settlementAddress;
+};
+
+/**
+ * Winds a market down in three steps, selected through SUNSET_STEP:
+ * - "pause": pauses the Perpetual, so that positions can't change anymore
+ * - "settle": snapshots the PnL of the open positions, deploys a PerpSettlement holding its merkle root, and
+ *   proposes to replace the Perpetual by the PerpSettlement in the ClearingHouse
+ * - "report": lists the accounts which still have to post their PnL to the PerpSettlement
+ */
+export default async function() {
+  const baseCurrency = process.env.MARKET_BASE_CURRENCY;
+  if (!baseCurrency) {
+    throw "⛔️ Market base currency wasn't found in .env file!";
+  }
+  const step = process.env.SUNSET_STEP;
+  if (step !== "pause" && step !== "settle" && step !== "report")
+    throw `⛔️ SUNSET_STEP must be "pause", "settle" or "report", not "${step}"!`;
+
+  const wallet = getWallet();
+  const provider = getProvider();
+  const addresses = await getProtocolAddresses(
+    "CLEARING_HOUSE",
+    "CLEARING_HOUSE_VIEWER"
+  );
+  const { CLEARING_HOUSE } = addresses;
+  const fromBlock = process.env.SUNSET_FROM_BLOCK
+    ? Number(process.env.SUNSET_FROM_BLOCK)
+    : await findDeploymentBlock(provider, CLEARING_HOUSE);
+  const marketName = `${baseCurrency}USD`;
+  const settlementKey = `PerpSettlement${marketName}`;
+  const settlementFile = getSettlementFilePath(marketName);
+
+  if (step === "report") {
+    const manifest = await loadManifest(wallet);
+    const record = manifest.contracts[settlementKey];
+    if (!record || !fs.existsSync(settlementFile))
+      throw `⛔️ The ${marketName} market wasn't settled yet, run SUNSET_STEP=settle first!`;
+
+    const settlement = loadSettlementFile(settlementFile);
+    const { pending, posted } = await getPendingSettlements(
+      provider,
+      record.address,
+      settlement,
+      fromBlock
+    );
+    const missing = pending.filter(({ pnl }) => pnl === undefined);
+
+    console.log(`PerpSettlement of ${marketName}: ${record.address}`);
+    console.log(` - ${posted} account(s) posted their PnL`);
+    console.log(` - ${pending.length} account(s) still have to post it`);
+    for (const { account, pnl } of pending)
+      console.log(`   ${account}: ${pnl ?? "⚠️ missing from the merkle tree"}`);
+    if (missing.length > 0)
+      console.log(
+        `⚠️ ${missing.length} account(s) can't settle until governance sets a merkle root including them`
+      );
+
+    const reportFile = settlementFile.replace(/\.json$/, "-pending.json");
+    fs.writeFileSync(reportFile, JSON.stringify(pending, null, 2) + "\n");
+    console.log(`Report written to ${reportFile}`);
+    return;
+  }
+
+  const market = await findMarketByBaseCurrency(wallet, baseCurrency);
+  const block = process.env.SUNSET_BLOCK
+    ? Number(process.env.SUNSET_BLOCK)
+    : await provider.getBlockNumber();
+
+  console.log(
+    `Step 1: Read the state of the ${marketName} market at block ${block}`
+  );
+  const status = await getSunsetStatus(
+    provider,
+    CLEARING_HOUSE,
+    market,
+    fromBlock,
+    block
+  );
+  logStatus(status);
+
+  if (step === "pause") {
+    if (status.paused) {
+      console.log(`${marketName} market already paused`);
+      return;
+    }
+
+    const perpetual = await getPerpetual(market.perpetual, wallet);
+    const emergencyAdmin: string = await perpetual.EMERGENCY_ADMIN();
+    if (!(await perpetual.hasRole(emergencyAdmin, wallet.address))) {
+      console.log(
+        `⚠️ ${
+          wallet.address
+        } isn't EMERGENCY_ADMIN of the Perpetual, the market has to be paused by calling ${
+          market.perpetual
+        } with ${perpetual.interface.encodeFunctionData("pause")}`
+      );
+      return;
+    }
+    if (process.env.DRY_RUN === "true") return;
+
+    console.log(`Step 2: Pause the ${marketName} market`);
+    await (await perpetual.pause()).wait();
+    return;
+  }
+
+  /**
+   * SETTLE
+   */
+
+  if (!status.paused)
+    throw `⛔️ The ${marketName} market isn't paused at block ${block}, positions could still change after the snapshot!`;
+  if (
+    status.openLpPositions.length > 0 &&
+    process.env.SUNSET_ALLOW_OPEN_LP !== "true"
+  )
+    throw `⛔️ ${status.openLpPositions.length} LP position(s) are still open in the ${marketName} market! Set SUNSET_ALLOW_OPEN_LP=true to settle their PnL through the merkle tree as well`;
+
+  console.log("Step 2: Snapshot the PnL and build the merkle tree");
+  const settlement = await generateSettlement(
+    provider,
+    addresses,
+    [market.idx],
+    block,
+    fromBlock
+  );
+  const numSettled = Object.keys(settlement.accounts).length;
+  const numOpen = new Set([
+    ...status.openTraderPositions,
+    ...status.openLpPositions
+  ]).size;
+  if (numSettled !== numOpen)
+    throw `⛔️ The merkle tree holds ${numSettled} account(s), but ${numOpen} have an open position!`;
+  writeSettlementFile(settlementFile, settlement);
+  console.log(
+    ` - ${numSettled} account(s), root ${settlement.root}, written to ${settlementFile}`
+  );
+
+  const manifest = await loadManifest(wallet);
+  const dryRun = process.env.DRY_RUN === "true";
+  let settlementAddress: string;
+  if (dryRun) {
+    // Nothing is deployed nor sent, the actions are encoded against the address the PerpSettlement would get
+    settlementAddress =
+      manifest.contracts[settlementKey]?.address ??
+      utils.createAddress(wallet.address, await wallet.getDeploymentNonce());
+    console.log(
+      `Step 3: Skip the deployment of the PerpSettlement (DRY_RUN), expected at ${settlementAddress}`
+    );
+  } else {
+    console.log("Step 3: Deploy the PerpSettlement");
+    settlementAddress = await deployPerpSettlement(
+      wallet,
+      manifest,
+      settlementKey,
+      [CLEARING_HOUSE, [market.perpetual], settlement.root],
+      settlement.root
+    );
+  }
+
+  console.log(
+    "Step 4: Encode the replacement of the Perpetual by the PerpSettlement"
+  );
+  const actions = [
+    await l2Action("CLEARING_HOUSE", "delistPerpetual", [market.perpetual]),
+    await l2Action("CLEARING_HOUSE", "allowListPerpetual", [settlementAddress])
+  ];
+  actions.forEach(action => console.log(` - ${action.description}`));
+
+  if (process.env.SIMULATION_RPC_URL) {
+    console.log("Simulate L2 actions on a local fork");
+    await assertProposalSucceeds(actions);
+  }
+  if (dryRun) return;
+
+  console.log("Step 5: Create proposal");
+  const proposal = await buildProposal(actions, `sunset ${marketName} market`);
+  const proposalId = await submitProposal(proposal);
+
+  if (getNetworkProfile().autoExecuteProposals) {
+    console.log("Step 6: Vote, queue and execute proposal");
+    await trackProposal(proposalId, { vote: true });
+  }
+}
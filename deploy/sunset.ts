@@ -0,0 +1,105 @@
+import { Contract, Provider } from "ethers";
+
+import { getInterface } from "./abi";
+import { getMarketAccounts, SettlementFile } from "./settlement";
+
+/**
+ * State of a market being wound down, at a given block
+ */
+export type SunsetStatus = {
+  paused: boolean;
+  /**
+   * Accounts which ever traded or provided liquidity in the market
+   */
+  accounts: number;
+  openTraderPositions: string[];
+  openLpPositions: string[];
+};
+
+/**
+ * Account with an open position in a delisted market which hasn't posted its PnL to the PerpSettlement yet.
+ * `pnl` and `proof` are undefined if the account is missing from the merkle tree, in which case it can't settle
+ */
+export type PendingSettlement = {
+  account: string;
+  pnl?: string;
+  proof?: string[];
+};
+
+export const getSunsetStatus = async (
+  provider: Provider,
+  clearingHouseAddress: string,
+  market: { idx: bigint; perpetual: string },
+  fromBlock: number,
+  block: number
+): Promise<SunsetStatus> => {
+  const perpetual = new Contract(
+    market.perpetual,
+    await getInterface("Perpetual"),
+    provider
+  );
+  const accounts = await getMarketAccounts(
+    provider,
+    clearingHouseAddress,
+    market.idx,
+    fromBlock,
+    block
+  );
+
+  const status: SunsetStatus = {
+    paused: await perpetual.paused({ blockTag: block }),
+    accounts: accounts.size,
+    openTraderPositions: [],
+    openLpPositions: []
+  };
+  for (const account of accounts) {
+    if (await perpetual.isTraderPositionOpen(account, { blockTag: block }))
+      status.openTraderPositions.push(account);
+    if (await perpetual.isLpPositionOpen(account, { blockTag: block }))
+      status.openLpPositions.push(account);
+  }
+  return status;
+};
+
+/**
+ * Lists the accounts which still have to post their PnL, i.e. for which `PerpSettlement.mustPostPosition` is true.
+ * Besides the accounts of the merkle tree, every account of the settled markets is checked so that the ones
+ * left out of the tree show up
+ */
+export const getPendingSettlements = async (
+  provider: Provider,
+  settlementAddress: string,
+  settlement: SettlementFile,
+  fromBlock: number
+) => {
+  const perpSettlement = new Contract(
+    settlementAddress,
+    await getInterface("PerpSettlement"),
+    provider
+  );
+  const latestBlock = await provider.getBlockNumber();
+
+  const accounts = new Set(Object.keys(settlement.accounts));
+  for (const { idx } of settlement.markets) {
+    const marketAccounts = await getMarketAccounts(
+      provider,
+      settlement.clearingHouse,
+      BigInt(idx),
+      fromBlock,
+      latestBlock
+    );
+    marketAccounts.forEach(account => accounts.add(account));
+  }
+
+  const pending: PendingSettlement[] = [];
+  for (const account of accounts) {
+    if (!(await perpSettlement.mustPostPosition(account))) continue;
+    pending.push({ account, ...settlement.accounts[account] });
+  }
+  return {
+    pending,
+    posted:
+      Object.keys(settlement.accounts).length -
+      pending.filter(({ pnl }) => pnl !== undefined).length
+  };
+};
@@ -0,0 +1,13 @@
+import { getNetworkProfile } from "./networks";
+import { trackProposal } from "./proposal-lifecycle";
+
+export default async function() {
+  const proposalId = process.env.PROPOSAL_ID;
+  if (!proposalId) {
+    throw "⛔️ Proposal id wasn't found in .env file!";
+  }
+
+  await trackProposal(proposalId, {
+    vote: getNetworkProfile().autoExecuteProposals
+  });
+}
@@ -0,0 +1,196 @@
+import {
+  Contract,
+  formatUnits,
+  getAddress,
+  parseEther,
+  parseUnits
+} from "ethers";
+
+import { getWallet } from "./utils";
+import { getProtocolAddresses } from "./addresses";
+import { getNetworkProfile } from "./networks";
+import { formatAmount, renderTable } from "./format";
+import { buildProposal, L2Action, l2Action, submitProposal } from "./proposal";
+import { trackProposal } from "./proposal-lifecycle";
+import { assertProposalSucceeds } from "./simulation";
+import { createReserveSdk, ReserveSdk } from "../sdk/reserve";
+
+const ACTIONS = [
+  "list",
+  "propose-cap",
+  "propose-token",
+  "deposit",
+  "withdraw"
+] as const;
+type ReserveAction = typeof ACTIONS[number];
+
+const ERC20_METADATA_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)"
+];
+
+const listReserveTokens = async (sdk: ReserveSdk) => {
+  const reserveTokens = await sdk.getReserveTokens();
+  console.log(
+    renderTable(
+      ["Token", "Address", "Decimals", "Minted (UA)", "Mint cap (UA)", "Left"],
+      reserveTokens.map(token => [
+        token.symbol,
+        token.asset,
+        token.decimals.toString(),
+        formatAmount(token.currentReserves),
+        formatAmount(token.mintCap),
+        formatAmount(
+          token.mintCap > token.currentReserves
+            ? token.mintCap - token.currentReserves
+            : 0n
+        )
+      ])
+    )
+  );
+  console.log(`\nUA total supply: ${formatAmount(await sdk.ua.totalSupply())}`);
+};
+
+const submitActions = async (actions: L2Action[], description: string) => {
+  actions.forEach(action => console.log(` - ${action.description}`));
+  if (process.env.SIMULATION_RPC_URL) {
+    console.log("Simulate L2 actions on a local fork");
+    await assertProposalSucceeds(actions);
+  }
+  if (process.env.DRY_RUN === "true") return;
+
+  console.log("Create proposal");
+  const proposal = await buildProposal(actions, description);
+  const proposalId = await submitProposal(proposal);
+
+  if (getNetworkProfile().autoExecuteProposals) {
+    console.log("Vote, queue and execute proposal");
+    await trackProposal(proposalId, { vote: true });
+  }
+};
+
+/**
+ * Manages the reserve tokens of UA, depending on RESERVE_ACTION:
+ * - "list": lists every reserve token with its mint cap and the UA minted against it
+ * - "propose-cap": proposes a new mint cap for a reserve token
+ * - "propose-token": proposes to add a reserve token
+ * - "deposit": mints UA with a reserve token and deposits it in the Vault, through the UAHelper
+ * - "withdraw": withdraws UA from the Vault and redeems it for a reserve token, through the UAHelper
+ */
+export default async function() {
+  const action = (process.env.RESERVE_ACTION || "list") as ReserveAction;
+  if (!ACTIONS.includes(action))
+    throw `⛔️ RESERVE_ACTION must be one of ${ACTIONS.join(
+      ", "
+    )}, not "${action}"!`;
+
+  const wallet = getWallet();
+  const sdk = await createReserveSdk(
+    wallet,
+    await getProtocolAddresses("UA", "UA_HELPER", "CLEARING_HOUSE")
+  );
+  if (action === "list") {
+    await listReserveTokens(sdk);
+    return;
+  }
+
+  if (!process.env.RESERVE_TOKEN) {
+    throw "⛔️ Reserve token (RESERVE_TOKEN) wasn't found in .env file!";
+  }
+  const token = getAddress(process.env.RESERVE_TOKEN);
+
+  if (action === "propose-cap" || action === "propose-token") {
+    if (!process.env.RESERVE_MINT_CAP) {
+      throw "⛔️ Mint cap (RESERVE_MINT_CAP) wasn't found in .env file!";
+    }
+    const mintCap = parseEther(process.env.RESERVE_MINT_CAP);
+
+    if (action === "propose-cap") {
+      const reserveToken = await sdk.getReserveToken(token);
+      console.log(
+        `${reserveToken.symbol} mint cap: ${formatAmount(
+          reserveToken.mintCap
+        )} -> ${formatAmount(mintCap)} UA`
+      );
+      if (mintCap < reserveToken.currentReserves)
+        console.log(
+          `⚠️ ${formatAmount(
+            reserveToken.currentReserves
+          )} UA were already minted against ${
+            reserveToken.symbol
+          }, no more UA will be minted with it until redemptions bring it under the new cap`
+        );
+      await submitActions(
+        [
+          await l2Action("UA", "changeReserveTokenMaxMintCap", [token, mintCap])
+        ],
+        `change ${reserveToken.symbol} UA mint cap`
+      );
+      return;
+    }
+
+    const reserveTokens = await sdk.getReserveTokens();
+    if (reserveTokens.some(({ asset }) => getAddress(asset) === token))
+      throw `⛔️ ${token} is already a reserve token of UA, use RESERVE_ACTION=propose-cap to change its mint cap!`;
+    const erc20 = new Contract(token, ERC20_METADATA_ABI, wallet);
+    const symbol: string = await erc20.symbol();
+    const decimals: bigint = await erc20.decimals();
+    // UA converts reserve amounts to 18 decimals, rounding down those of tokens with more decimals
+    if (decimals > 18n)
+      throw `⛔️ ${symbol} has ${decimals} decimals, UA only supports up to 18!`;
+    console.log(
+      `Add ${symbol} (${decimals} decimals) with a mint cap of ${formatAmount(
+        mintCap
+      )} UA`
+    );
+    await submitActions(
+      [await l2Action("UA", "addReserveToken", [token, mintCap])],
+      `add ${symbol} UA reserve token`
+    );
+    return;
+  }
+
+  if (!process.env.RESERVE_AMOUNT) {
+    throw "⛔️ Amount (RESERVE_AMOUNT) wasn't found in .env file!";
+  }
+  const reserveToken = await sdk.getReserveToken(token);
+
+  if (action === "deposit") {
+    const amount = parseUnits(
+      process.env.RESERVE_AMOUNT,
+      Number(reserveToken.decimals)
+    );
+    const permit = process.env.RESERVE_PERMIT === "true";
+    console.log(
+      `Mint UA with ${process.env.RESERVE_AMOUNT} ${
+        reserveToken.symbol
+      } and deposit it in the Vault${permit ? ", approved by permit" : ""}`
+    );
+    if (process.env.DRY_RUN === "true") return;
+
+    const { receipt, uaAmount } = await sdk.depositReserveToken(token, amount, {
+      permit,
+      permitValidity: process.env.RESERVE_PERMIT_VALIDITY
+        ? Number(process.env.RESERVE_PERMIT_VALIDITY)
+        : undefined
+    });
+    console.log(`✅ Deposited ${formatAmount(uaAmount)} UA in ${receipt.hash}`);
+    return;
+  }
+
+  const uaAmount = parseEther(process.env.RESERVE_AMOUNT);
+  console.log(
+    `Withdraw ${process.env.RESERVE_AMOUNT} UA from the Vault and redeem it for ${reserveToken.symbol}`
+  );
+  if (process.env.DRY_RUN === "true") return;
+
+  const { receipt, tokenAmount } = await sdk.withdrawReserveToken(
+    token,
+    uaAmount
+  );
+  console.log(
+    `✅ Received ${formatUnits(tokenAmount, reserveToken.decimals)} ${
+      reserveToken.symbol
+    } in ${receipt.hash}`
+  );
+}
@@ -94,7 +94,7 @@ export const verifyContract = async (data: {
   return verificationRequestId;
 };
 
-type DeployContractOptions = {
+export type DeployContractOptions = {
   /**
    * If true, the deployment process will not print any logs
    */
@@ -107,6 +107,10 @@ type DeployContractOptions = {
    * If specified, the contract will be deployed using this wallet
    */
   wallet?: Wallet;
+  /**
+   * Bytecodes of the contracts deployed by this contract, e.g. by a factory
+   */
+  factoryDeps?: string[];
 };
 export const deployContract = async (
   contractArtifactName: string,
@@ -147,7 +151,12 @@ export const deployContract = async (
   await verifyEnoughBalance(wallet, deploymentFee);
 
   // Deploy the contract to zkSync
-  const contract = await deployer.deploy(artifact, constructorArguments);
+  const contract = await deployer.deploy(
+    artifact,
+    constructorArguments,
+    undefined,
+    options?.factoryDeps
+  );
   const address = await contract.getAddress();
 
   const constructorArgs = contract.interface.encodeDeploy(constructorArguments);
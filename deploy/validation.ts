@@ -0,0 +1,197 @@
+import { BigNumberish, formatEther, parseEther } from "ethers";
+
+import { GlobalParams, MarketParams, NetworkProfile } from "./networks";
+import { CollateralParams } from "./collateral";
+
+export type ParameterViolation = {
+  path: string;
+  value: string;
+  allowed: string;
+};
+
+type Bounds = {
+  min?: bigint;
+  max?: bigint;
+  /**
+   * If true, the value and bounds are displayed as 18 decimals numbers
+   */
+  wad?: boolean;
+};
+
+// Curve cryptoswap pool bounds, see contracts/curve/Factory.vy
+const A_MULTIPLIER = 10000n;
+const CURVE_MIN_A = (4n * A_MULTIPLIER) / 10n;
+const CURVE_MAX_A = 4n * A_MULTIPLIER * 100000n;
+const CURVE_MIN_GAMMA = 10n ** 10n;
+const CURVE_MAX_GAMMA = 2n * 10n ** 16n;
+const CURVE_MIN_FEE = 5n * 10n ** 5n;
+const CURVE_MAX_FEE = 10n * 10n ** 9n;
+
+// Oracle heart beats are stored as uint24
+const MAX_HEART_BEAT = 2n ** 24n - 1n;
+
+const checkBounds = (
+  violations: ParameterViolation[],
+  path: string,
+  value: BigNumberish,
+  { min, max, wad }: Bounds
+) => {
+  const format = (amount: bigint) =>
+    wad ? formatEther(amount) : amount.toString();
+
+  const amount = BigInt(value);
+  if (
+    (min === undefined || amount >= min) &&
+    (max === undefined || amount <= max)
+  )
+    return;
+
+  violations.push({
+    path,
+    value: format(amount),
+    allowed: `[${min === undefined ? "-∞" : format(min)}, ${
+      max === undefined ? "∞" : format(max)
+    }]`
+  });
+};
+
+/**
+ * Mirrors the checks of ClearingHouse.setParameters and the Oracle setters used during deployment
+ */
+export const validateGlobalParams = (params: GlobalParams, path = "global") => {
+  const violations: ParameterViolation[] = [];
+  const check = (name: keyof GlobalParams, bounds: Bounds) =>
+    checkBounds(violations, `${path}.${name}`, params[name], bounds);
+
+  check("minMargin", {
+    min: parseEther("0.02"),
+    max: parseEther("0.2"),
+    wad: true
+  });
+  check("minMarginAtCreation", {
+    min: BigInt(params.minMargin) + 1n,
+    max: parseEther("0.5"),
+    wad: true
+  });
+  check("minPositiveOpenNotional", { max: parseEther("1000"), wad: true });
+  check("liquidationReward", {
+    min: parseEther("0.01"),
+    max: BigInt(params.minMargin) - 1n,
+    wad: true
+  });
+  check("liquidationDiscount", { min: parseEther("0.7"), wad: true });
+  check("nonUACollSeizureDiscount", {
+    max: BigInt(params.liquidationDiscount) - parseEther("0.1"),
+    wad: true
+  });
+  check("uaDebtSeizureThreshold", { min: parseEther("100"), wad: true });
+  check("insuranceRatio", {
+    min: parseEther("0.1"),
+    max: parseEther("0.5"),
+    wad: true
+  });
+  check("liquidationRewardInsuranceShare", { max: parseEther("1"), wad: true });
+  check("gracePeriod", { min: 60n, max: 3600n });
+  check("uaHeartBeat", { min: 1n, max: MAX_HEART_BEAT });
+
+  return violations;
+};
+
+/**
+ * Mirrors the checks of Perpetual.setParameters, VBase and the Curve pool factory
+ */
+export const validateMarketParams = (params: MarketParams, path: string) => {
+  const violations: ParameterViolation[] = [];
+  const check = (name: keyof MarketParams, bounds: Bounds) =>
+    checkBounds(violations, `${path}.${name}`, params[name], bounds);
+
+  // Perpetual
+  check("riskWeight", {
+    min: parseEther("1"),
+    max: parseEther("50"),
+    wad: true
+  });
+  check("twapFrequency", { min: 60n, max: 3600n });
+  check("sensitivity", {
+    min: parseEther("0.2"),
+    max: parseEther("10"),
+    wad: true
+  });
+  check("maxBlockTradeAmount", { min: parseEther("100"), wad: true });
+  check("insuranceFee", {
+    min: parseEther("0.0001"),
+    max: parseEther("0.01"),
+    wad: true
+  });
+  check("lpDebtCoef", {
+    min: parseEther("1"),
+    max: parseEther("20"),
+    wad: true
+  });
+  check("lockPeriod", { min: 600n, max: 30n * 86400n });
+
+  // VBase
+  check("heartBeat", { min: 1n });
+  check("gracePeriod", { min: 60n, max: 3600n });
+
+  // Curve pool
+  check("A", { min: CURVE_MIN_A, max: CURVE_MAX_A });
+  check("gamma", { min: CURVE_MIN_GAMMA, max: CURVE_MAX_GAMMA });
+  check("mid_fee", { min: CURVE_MIN_FEE, max: CURVE_MAX_FEE - 2n });
+  check("out_fee", { min: BigInt(params.mid_fee), max: CURVE_MAX_FEE - 2n });
+  check("allowed_extra_profit", { max: 10n ** 16n });
+  check("fee_gamma", { min: 1n, max: 10n ** 18n });
+  check("adjustment_step", { min: 1n, max: 10n ** 18n });
+  check("ma_half_time", { min: 1n, max: 7n * 86400n - 1n });
+  // Perpetual refuses pools which take an admin fee
+  check("admin_fee", { min: 0n, max: 0n });
+
+  return violations;
+};
+
+/**
+ * Mirrors the checks of Vault.addWhiteListedCollateral and Oracle.setOracle. Tokens with more than 18 decimals are
+ * refused, as the Vault would round their amounts down when converting them to 18 decimals
+ */
+export const validateCollateralParams = (
+  params: CollateralParams,
+  path = "collateral"
+) => {
+  const violations: ParameterViolation[] = [];
+  const check = (name: keyof CollateralParams, bounds: Bounds) => {
+    if (params[name] !== undefined)
+      checkBounds(violations, `${path}.${name}`, params[name]!, bounds);
+  };
+
+  check("decimals", { max: 18n });
+  check("weight", { min: parseEther("0.1"), max: parseEther("1"), wad: true });
+  check("maxAmount", { min: 0n, wad: true });
+  check("heartBeat", { min: 1n, max: MAX_HEART_BEAT });
+  check("fixedPrice", { min: 0n, wad: true });
+
+  return violations;
+};
+
+/**
+ * Validates the global parameters and the parameters of every market of a network profile
+ */
+export const validateProfileParams = (profile: NetworkProfile) => [
+  ...validateGlobalParams(profile.global),
+  ...Object.entries(profile.marketParams).flatMap(([currency, params]) =>
+    validateMarketParams(params, `marketParams.${currency}`)
+  )
+];
+
+/**
+ * Throws a single error listing every violation, if any
+ */
+export const assertValidParams = (violations: ParameterViolation[]) => {
+  if (violations.length === 0) return;
+
+  throw `⛔️ Invalid protocol parameters:\n${violations
+    .map(
+      ({ path, value, allowed }) =>
+        ` - ${path} is ${value}, allowed range is ${allowed}`
+    )
+    .join("\n")}`;
+};
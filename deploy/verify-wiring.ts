@@ -0,0 +1,221 @@
+import { Contract, getAddress } from "ethers";
+
+import { getProvider } from "./utils";
+import { getProtocolAddresses, loadAddressBook } from "./addresses";
+import { getNetworkProfile } from "./networks";
+import { getMarkets } from "./markets";
+import { getInterface } from "./abi";
+
+/**
+ * A reference from one contract to another, read from a getter
+ */
+type Edge = {
+  from: string;
+  getter: string;
+  actual: string;
+  expected: string;
+  expectedName: string;
+};
+
+export default async function() {
+  const provider = getProvider();
+  const profile = getNetworkProfile();
+  const { CLEARING_HOUSE } = await getProtocolAddresses("CLEARING_HOUSE");
+
+  const attach = async (contract: string, address: string) =>
+    new Contract(address, await getInterface(contract), provider);
+
+  // Only the recorded addresses are expected: references to contracts missing from the address book can't be
+  // verified. Those contracts are still attached from the contracts referring to them, so that their own references
+  // get checked
+  const clearingHouse = await attach("ClearingHouse", CLEARING_HOUSE);
+  const expected: Record<string, string> = {
+    ...(loadAddressBook() as Record<string, string>),
+    CRYPTO_SWAP_FACTORY: profile.addresses.CRYPTO_SWAP_FACTORY,
+    CURVE_MATH: profile.addresses.CURVE_MATH,
+    EMERGENCY_ADMIN: profile.addresses.EMERGENCY_ADMIN
+  };
+  const vault = await attach(
+    "Vault",
+    expected.VAULT ?? (await clearingHouse.vault())
+  );
+  const reserveToken = profile.addresses.USDC ?? expected.USDC_MOCK;
+  if (reserveToken) expected.RESERVE_TOKEN = reserveToken;
+
+  const edges: Edge[] = [];
+  const check = async (
+    from: string,
+    contract: Contract,
+    getter: string,
+    expectedName: string,
+    args: any[] = []
+  ) => {
+    const actual = getAddress(await contract[getter](...args));
+    const expectedAddress = expected[expectedName];
+    edges.push({
+      from,
+      getter: args.length > 0 ? `${getter}(${args.join(", ")})` : getter,
+      actual,
+      expected: expectedAddress ? getAddress(expectedAddress) : "",
+      expectedName
+    });
+  };
+
+  console.log("Reading protocol contracts");
+  await check("ClearingHouse", clearingHouse, "vault", "VAULT");
+  await check("ClearingHouse", clearingHouse, "insurance", "INSURANCE");
+
+  await check("Vault", vault, "UA", "UA");
+  await check("Vault", vault, "clearingHouse", "CLEARING_HOUSE");
+  await check("Vault", vault, "insurance", "INSURANCE");
+  await check("Vault", vault, "oracle", "ORACLE");
+
+  const insurance = await attach(
+    "Insurance",
+    expected.INSURANCE ?? (await clearingHouse.insurance())
+  );
+  await check("Insurance", insurance, "token", "UA");
+  await check("Insurance", insurance, "vault", "VAULT");
+  await check("Insurance", insurance, "clearingHouse", "CLEARING_HOUSE");
+
+  const oracle = await attach(
+    "Oracle",
+    expected.ORACLE ?? (await vault.oracle())
+  );
+  await check("Oracle", oracle, "sequencerUptimeFeed", "SEQUENCER_UPTIME_FEED");
+
+  const ua = await attach("UA", expected.UA ?? (await vault.UA()));
+  await check("UA", ua, "initialReserveToken", "RESERVE_TOKEN");
+
+  if (expected.CLEARING_HOUSE_VIEWER) {
+    const viewer = await attach(
+      "ClearingHouseViewer",
+      expected.CLEARING_HOUSE_VIEWER
+    );
+    await check(
+      "ClearingHouseViewer",
+      viewer,
+      "clearingHouse",
+      "CLEARING_HOUSE"
+    );
+  }
+  if (expected.UA_HELPER) {
+    const uaHelper = await attach("UAHelper", expected.UA_HELPER);
+    await check("UAHelper", uaHelper, "ua", "UA");
+    await check("UAHelper", uaHelper, "clearingHouse", "CLEARING_HOUSE");
+  }
+  if (expected.CURVE_CRYPTO_VIEWS) {
+    const curveCryptoViews = await attach(
+      "CurveCryptoViews",
+      expected.CURVE_CRYPTO_VIEWS
+    );
+    await check("CurveCryptoViews", curveCryptoViews, "math", "CURVE_MATH");
+  }
+
+  const factory = await attach(
+    "PerpMarketFactory",
+    (await getProtocolAddresses("PERP_MARKET_FACTORY")).PERP_MARKET_FACTORY
+  );
+  await check("PerpMarketFactory", factory, "CLEARING_HOUSE", "CLEARING_HOUSE");
+  await check(
+    "PerpMarketFactory",
+    factory,
+    "CURVE_CRYPTO_VIEWS",
+    "CURVE_CRYPTO_VIEWS"
+  );
+  await check(
+    "PerpMarketFactory",
+    factory,
+    "CRYPTO_SWAP_FACTORY",
+    "CRYPTO_SWAP_FACTORY"
+  );
+  await check("PerpMarketFactory", factory, "GOV_ADDRESS", "OWNED_MULTICALL");
+  await check(
+    "PerpMarketFactory",
+    factory,
+    "EMERGENCY_ADMIN_ADDRESS",
+    "EMERGENCY_ADMIN"
+  );
+
+  console.log("Reading markets");
+  const mismatches: string[] = [];
+  const factoryMarkets = new Set<string>();
+  const numFactoryMarkets = await factory.getNumMarkets();
+  for (let i = 0n; i < numFactoryMarkets; i++) {
+    factoryMarkets.add(getAddress(await factory.markets(i)));
+  }
+
+  const listedMarkets = new Set<string>();
+  for (const market of await getMarkets(provider)) {
+    const label = `Perpetual #${market.idx}`;
+    const perpetualAddress = getAddress(market.perpetual);
+    listedMarkets.add(perpetualAddress);
+    if (!factoryMarkets.has(perpetualAddress))
+      mismatches.push(
+        `ClearingHouse.perpetuals(${market.idx}) ${perpetualAddress} wasn't deployed by the PerpMarketFactory`
+      );
+
+    expected[label] = perpetualAddress;
+    expected[`${label}.vBase`] = market.vBase;
+    expected[`${label}.vQuote`] = market.vQuote;
+
+    const perpetual = await attach("Perpetual", perpetualAddress);
+    await check(label, perpetual, "clearingHouse", "CLEARING_HOUSE");
+    await check(label, perpetual, "curveCryptoViews", "CURVE_CRYPTO_VIEWS");
+
+    // The pool's coins and the virtual tokens' owner must agree with the Perpetual
+    const pool = await attach("ICryptoSwap", market.market);
+    await check(`${label}.market`, pool, "coins", `${label}.vQuote`, [0]);
+    await check(`${label}.market`, pool, "coins", `${label}.vBase`, [1]);
+
+    const vBase = await attach("VBase", market.vBase);
+    await check(`${label}.vBase`, vBase, "perp", label);
+    await check(
+      `${label}.vBase`,
+      vBase,
+      "sequencerUptimeFeed",
+      "SEQUENCER_UPTIME_FEED"
+    );
+    const vQuote = await attach("VQuote", market.vQuote);
+    await check(`${label}.vQuote`, vQuote, "perp", label);
+  }
+
+  for (const perpetual of factoryMarkets) {
+    if (!listedMarkets.has(perpetual))
+      console.log(
+        `ℹ️  Market ${perpetual} of the PerpMarketFactory isn't listed in the ClearingHouse (delisted?)`
+      );
+  }
+
+  console.log("\nDependency graph:");
+  const unverified = new Set<string>();
+  for (const { from, getter, actual, expected, expectedName } of edges) {
+    const status = !expected ? "➖" : actual === expected ? "✅" : "❌";
+    console.log(
+      ` ${status} ${from}.${getter} -> ${actual} (${expectedName}${
+        expected ? "" : ", unverified"
+      })`
+    );
+    if (!expected) unverified.add(expectedName);
+    if (expected && actual !== expected)
+      mismatches.push(
+        `${from}.${getter} is ${actual}, expected ${expectedName} ${expected}`
+      );
+  }
+
+  if (mismatches.length > 0)
+    throw `⛔️ ${mismatches.length} wiring mismatch(es):\n${mismatches
+      .map(mismatch => ` - ${mismatch}`)
+      .join("\n")}`;
+
+  if (unverified.size > 0) {
+    console.log(
+      `\n⚠️ References to ${[...unverified].join(
+        ", "
+      )} are unverified, as the address book doesn't record them`
+    );
+    console.log("✅ All verified contract references match the deployment");
+    return;
+  }
+  console.log("\n✅ All contract references match the deployment");
+}
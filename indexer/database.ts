@@ -0,0 +1,80 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+
+export type IndexerDatabase = Database.Database;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+
+-- Hashes of the indexed blocks which hold events or end a batch, to detect reorgs
+CREATE TABLE IF NOT EXISTS blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+
+-- Perpetuals listed in the ClearingHouse, from its MarketAdded events, kept after they get delisted
+CREATE TABLE IF NOT EXISTS markets (
+  idx INTEGER PRIMARY KEY,
+  perpetual TEXT NOT NULL UNIQUE,
+  block_number INTEGER NOT NULL
+);
+
+-- Integers are stored as decimal strings in args, as they don't fit SQLite integers
+CREATE TABLE IF NOT EXISTS events (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  contract TEXT NOT NULL,
+  address TEXT NOT NULL,
+  name TEXT NOT NULL,
+  idx INTEGER,
+  account TEXT,
+  counterparty TEXT,
+  args TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_account ON events (account, timestamp);
+CREATE INDEX IF NOT EXISTS events_counterparty ON events (counterparty, timestamp);
+CREATE INDEX IF NOT EXISTS events_market ON events (idx, name, timestamp);
+`;
+
+/**
+ * Opens (and creates if needed) an indexer database
+ */
+export const openIndexerDatabase = (databasePath: string): IndexerDatabase => {
+  fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+  const database = new Database(databasePath);
+  database.pragma("journal_mode = WAL");
+  database.exec(SCHEMA);
+  return database;
+};
+
+export const getMeta = (database: IndexerDatabase, key: string) =>
+  (database.prepare("SELECT value FROM meta WHERE key = ?").get(key) as
+    | { value: string }
+    | undefined)?.value;
+
+export const setMeta = (
+  database: IndexerDatabase,
+  key: string,
+  value: string
+) =>
+  database
+    .prepare(
+      "INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value"
+    )
+    .run(key, value);
+
+/**
+ * Last block whose events are all indexed, undefined if nothing was indexed yet
+ */
+export const getCheckpoint = (database: IndexerDatabase) => {
+  const checkpoint = getMeta(database, "checkpoint");
+  return checkpoint === undefined ? undefined : Number(checkpoint);
+};
@@ -0,0 +1,3 @@
+export * from "./database";
+export * from "./ingest";
+export * from "./queries";
@@ -0,0 +1,341 @@
+import path from "path";
+import { Contract, Interface, Log, Provider, getAddress } from "ethers";
+import * as hre from "hardhat";
+
+import { formatValue, getInterface } from "../deploy/abi";
+import { getProtocolAddresses } from "../deploy/addresses";
+import { findDeploymentBlock, getLogsInRange } from "../sdk/events";
+import {
+  getCheckpoint,
+  getMeta,
+  IndexerDatabase,
+  openIndexerDatabase,
+  setMeta
+} from "./database";
+import { INDEXED_EVENTS } from "./queries";
+
+export type EventIndexerOptions = {
+  /**
+   * Path of the SQLite database. Defaults to deployments/<network>/events.sqlite
+   */
+  database?: string;
+  clearingHouse?: string;
+  /**
+   * Block to start from when the database is empty. Defaults to the deployment block of the ClearingHouse
+   */
+  fromBlock?: number;
+  /**
+   * Blocks to stay behind the chain head. Reorgs deeper than that are still detected and rolled back
+   */
+  confirmations?: number;
+  /**
+   * Blocks fetched and committed at once. Defaults to 10000
+   */
+  batchSize?: number;
+  /**
+   * Milliseconds between two syncs when following the chain. Defaults to 15s
+   */
+  pollInterval?: number;
+  log?: (message: string) => void;
+};
+
+type IndexedContract = keyof typeof INDEXED_EVENTS;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const getIndexerDatabasePath = (network = hre.network.name) =>
+  path.join(hre.config.paths.root, "deployments", network, "events.sqlite");
+
+/**
+ * Account an event is about, and the other party for liquidations and seizures
+ */
+const getParties = (args: Record<string, any>) => ({
+  account:
+    args.user ?? args.liquidityProvider ?? args.liquidatee ?? args.account,
+  counterparty: args.liquidator
+});
+
+/**
+ * Creates an indexer copying the ClearingHouse, Perpetual and Vault events into a SQLite database. Progress is
+ * committed batch by batch along with a checkpoint, so the indexer resumes where it stopped
+ */
+export const createEventIndexer = async (
+  provider: Provider,
+  options: EventIndexerOptions = {}
+) => {
+  const log = options.log ?? console.log;
+  const database: IndexerDatabase = openIndexerDatabase(
+    options.database ?? getIndexerDatabasePath()
+  );
+  const clearingHouseAddress = getAddress(
+    options.clearingHouse ??
+      (await getProtocolAddresses("CLEARING_HOUSE")).CLEARING_HOUSE
+  );
+  const interfaces: Record<IndexedContract, Interface> = {
+    ClearingHouse: await getInterface("ClearingHouse"),
+    Perpetual: await getInterface("Perpetual"),
+    Vault: await getInterface("Vault")
+  };
+  const clearingHouse = new Contract(
+    clearingHouseAddress,
+    interfaces.ClearingHouse,
+    provider
+  );
+  const vaultAddress = getAddress(await clearingHouse.vault());
+
+  // A database only ever holds the events of one deployment
+  const chainId = (await provider.getNetwork()).chainId.toString();
+  for (const [key, value] of [
+    ["chainId", chainId],
+    ["clearingHouse", clearingHouseAddress]
+  ]) {
+    const stored = getMeta(database, key);
+    if (stored === undefined) setMeta(database, key, value);
+    else if (stored !== value)
+      throw `⛔️ The indexer database was created for ${key} ${stored}, not ${value}!`;
+  }
+
+  const topics = Object.entries(INDEXED_EVENTS).flatMap(([contract, names]) =>
+    names.map(
+      name => interfaces[contract as IndexedContract].getEvent(name)!.topicHash
+    )
+  );
+
+  const insertMarket = database.prepare(
+    "INSERT OR IGNORE INTO markets (idx, perpetual, block_number) VALUES (@idx, @perpetual, @blockNumber)"
+  );
+
+  /**
+   * Reads the markets listed between two blocks from the `MarketAdded` events of the ClearingHouse. Unlike its `id`
+   * list, they also hold the markets delisted since, whose events remain to be indexed
+   */
+  const getListedMarkets = async (fromBlock: number, toBlock: number) =>
+    (
+      await getLogsInRange(
+        provider,
+        {
+          address: clearingHouseAddress,
+          topics: [interfaces.ClearingHouse.getEvent("MarketAdded")!.topicHash]
+        },
+        fromBlock,
+        toBlock
+      )
+    ).map(eventLog => {
+      const { perpetual, listedIdx } = interfaces.ClearingHouse.parseLog({
+        topics: [...eventLog.topics],
+        data: eventLog.data
+      })!.args;
+      return {
+        idx: Number(listedIdx),
+        perpetual: getAddress(perpetual),
+        blockNumber: eventLog.blockNumber
+      };
+    });
+
+  /**
+   * Market id of every recorded perpetual
+   */
+  const getMarkets = () => {
+    const rows = database.prepare("SELECT * FROM markets").all() as {
+      idx: number;
+      perpetual: string;
+    }[];
+    return new Map(rows.map(row => [row.perpetual, BigInt(row.idx)]));
+  };
+
+  const getStoredHash = (blockNumber: number) =>
+    (database
+      .prepare("SELECT hash FROM blocks WHERE number = ?")
+      .get(blockNumber) as { hash: string } | undefined)?.hash;
+
+  const rollbackTo = database.transaction((blockNumber: number) => {
+    database
+      .prepare("DELETE FROM events WHERE block_number > ?")
+      .run(blockNumber);
+    database.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+    database
+      .prepare("DELETE FROM markets WHERE block_number > ?")
+      .run(blockNumber);
+    setMeta(database, "checkpoint", blockNumber.toString());
+  });
+
+  /**
+   * Rolls the database back to the last indexed block still on the chain, if the checkpoint was reorged out
+   */
+  const handleReorg = async (checkpoint: number) => {
+    const checkpointHash = getStoredHash(checkpoint);
+    if (
+      !checkpointHash ||
+      (await provider.getBlock(checkpoint))?.hash === checkpointHash
+    )
+      return checkpoint;
+
+    const blocks = database
+      .prepare("SELECT number, hash FROM blocks ORDER BY number DESC")
+      .all() as { number: number; hash: string }[];
+    for (const block of blocks) {
+      if ((await provider.getBlock(block.number))?.hash === block.hash) {
+        log(
+          `⚠️ Reorg detected, rolling back from block ${checkpoint} to ${block.number}`
+        );
+        rollbackTo(block.number);
+        return block.number;
+      }
+    }
+
+    // None of the indexed blocks is left, start over
+    log(`⚠️ Reorg deeper than the indexed blocks, reindexing from scratch`);
+    const restart = (options.fromBlock ?? blocks[blocks.length - 1].number) - 1;
+    rollbackTo(restart);
+    return restart;
+  };
+
+  const insertEvent = database.prepare(
+    `INSERT OR REPLACE INTO events
+      (block_number, log_index, tx_hash, timestamp, contract, address, name, idx, account, counterparty, args)
+      VALUES (@blockNumber, @logIndex, @txHash, @timestamp, @contract, @address, @name, @idx, @account, @counterparty, @args)`
+  );
+  const insertBlock = database.prepare(
+    "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)"
+  );
+
+  const recordMarkets = database.transaction(
+    (listedMarkets: Record<string, any>[]) => {
+      for (const market of listedMarkets) insertMarket.run(market);
+    }
+  );
+
+  const commitBatch = database.transaction(
+    (
+      listedMarkets: Record<string, any>[],
+      rows: Record<string, any>[],
+      blocks: Map<number, { hash: string; timestamp: number }>,
+      toBlock: number
+    ) => {
+      for (const market of listedMarkets) insertMarket.run(market);
+      for (const row of rows) insertEvent.run(row);
+      for (const [number, { hash, timestamp }] of blocks)
+        insertBlock.run(number, hash, timestamp);
+      setMeta(database, "checkpoint", toBlock.toString());
+    }
+  );
+
+  const decodeLog = (eventLog: Log, markets: Map<string, bigint>) => {
+    const address = getAddress(eventLog.address);
+    const contract: IndexedContract =
+      address === clearingHouseAddress
+        ? "ClearingHouse"
+        : address === vaultAddress
+        ? "Vault"
+        : "Perpetual";
+    const event = interfaces[contract].parseLog({
+      topics: [...eventLog.topics],
+      data: eventLog.data
+    });
+    if (!event) return;
+
+    // formatValue turns integers into strings, which JSON can hold
+    const args: Record<string, any> = formatValue(event.args);
+    const { account, counterparty } = getParties(args);
+    const idx = contract === "Perpetual" ? markets.get(address) : args.idx;
+    return {
+      logIndex: eventLog.index,
+      txHash: eventLog.transactionHash,
+      contract,
+      address,
+      name: event.name,
+      idx: idx === undefined ? null : Number(idx),
+      account: account?.toLowerCase() ?? null,
+      counterparty: counterparty?.toLowerCase() ?? null,
+      args: JSON.stringify(args)
+    };
+  };
+
+  const indexBatch = async (fromBlock: number, toBlock: number) => {
+    // Markets listed within the batch are indexed along with it
+    const listedMarkets = await getListedMarkets(fromBlock, toBlock);
+    const markets = getMarkets();
+    for (const { idx, perpetual } of listedMarkets)
+      if (!markets.has(perpetual)) markets.set(perpetual, BigInt(idx));
+
+    const logs = await getLogsInRange(
+      provider,
+      {
+        address: [clearingHouseAddress, vaultAddress, ...markets.keys()],
+        topics: [topics]
+      },
+      fromBlock,
+      toBlock
+    );
+
+    const blocks = new Map<number, { hash: string; timestamp: number }>();
+    for (const blockNumber of new Set([
+      ...logs.map(eventLog => eventLog.blockNumber),
+      toBlock
+    ])) {
+      const block = (await provider.getBlock(blockNumber))!;
+      blocks.set(blockNumber, {
+        hash: block.hash!,
+        timestamp: block.timestamp
+      });
+    }
+
+    const rows: Record<string, any>[] = [];
+    for (const eventLog of logs) {
+      const row = decodeLog(eventLog, markets);
+      if (row)
+        rows.push({
+          ...row,
+          blockNumber: eventLog.blockNumber,
+          timestamp: blocks.get(eventLog.blockNumber)!.timestamp
+        });
+    }
+    commitBatch(listedMarkets, rows, blocks, toBlock);
+    return rows.length;
+  };
+
+  /**
+   * Indexes the blocks since the checkpoint, up to the chain head minus the confirmations
+   */
+  const sync = async () => {
+    const storedCheckpoint = getCheckpoint(database);
+    let checkpoint: number;
+    if (storedCheckpoint !== undefined) {
+      checkpoint = await handleReorg(storedCheckpoint);
+    } else if (options.fromBlock !== undefined) {
+      checkpoint = options.fromBlock - 1;
+      // The markets listed before the first block don't get indexed with the batches
+      if (checkpoint >= 0) recordMarkets(await getListedMarkets(0, checkpoint));
+    } else {
+      checkpoint =
+        (await findDeploymentBlock(provider, clearingHouseAddress)) - 1;
+    }
+
+    const headBlock =
+      (await provider.getBlockNumber()) - (options.confirmations ?? 0);
+    const batchSize = options.batchSize ?? 10000;
+
+    let indexed = 0;
+    while (checkpoint < headBlock) {
+      const toBlock = Math.min(checkpoint + batchSize, headBlock);
+      indexed += await indexBatch(checkpoint + 1, toBlock);
+      checkpoint = toBlock;
+      log(`Indexed up to block ${checkpoint} (${indexed} event(s))`);
+    }
+    return { checkpoint, indexed };
+  };
+
+  /**
+   * Follows the chain, syncing every `pollInterval` until `shouldStop` returns true
+   */
+  const run = async (shouldStop: () => boolean = () => false) => {
+    while (!shouldStop()) {
+      await sync();
+      await sleep(options.pollInterval ?? 15000);
+    }
+  };
+
+  return { database, sync, run, close: () => database.close() };
+};
+
+export type EventIndexer = Awaited<ReturnType<typeof createEventIndexer>>;
@@ -0,0 +1,277 @@
+import { IndexerDatabase } from "./database";
+import { Side } from "../sdk/common";
+
+/**
+ * Arguments of the indexed events, by event name. Integers are 18 decimals unless stated otherwise
+ */
+export type EventArgs = {
+  ChangePosition: {
+    idx: bigint;
+    user: string;
+    direction: Side;
+    addedOpenNotional: bigint;
+    addedPositionSize: bigint;
+    profit: bigint;
+    tradingFeesPayed: bigint;
+    insuranceFeesPayed: bigint;
+    isPositionIncreased: boolean;
+    isPositionClosed: boolean;
+  };
+  LiquidationCall: {
+    idx: bigint;
+    liquidatee: string;
+    liquidator: string;
+    notional: bigint;
+    profit: bigint;
+    tradingFeesPayed: bigint;
+    isTrader: boolean;
+  };
+  SeizeCollateral: { liquidatee: string; liquidator: string };
+  LiquidityProvided: {
+    idx: bigint;
+    liquidityProvider: string;
+    quoteAmount: bigint;
+    baseAmount: bigint;
+    tradingFeesEarned: bigint;
+  };
+  LiquidityRemoved: {
+    idx: bigint;
+    liquidityProvider: string;
+    reductionRatio: bigint;
+    profit: bigint;
+    tradingFeesPayed: bigint;
+    isPositionClosed: boolean;
+  };
+  DustSold: { idx: bigint; profit: bigint; tradingFeesPayed: bigint };
+  FundingPaid: {
+    account: string;
+    amount: bigint;
+    globalCumulativeFundingRate: bigint;
+    userCumulativeFundingRate: bigint;
+    isTrader: boolean;
+  };
+  FundingRateUpdated: {
+    cumulativeFundingRate: bigint;
+    cumulativeFundingPerLpToken: bigint;
+    fundingRate: bigint;
+  };
+  TwapUpdated: { newOracleTwap: bigint; newMarketTwap: bigint };
+  /**
+   * `amount` is in the decimals of the asset
+   */
+  Deposit: { user: string; asset: string; amount: bigint };
+  Withdraw: { user: string; asset: string; amount: bigint };
+};
+
+export type EventName = keyof EventArgs;
+
+export const INDEXED_EVENTS: Record<
+  "ClearingHouse" | "Perpetual" | "Vault",
+  EventName[]
+> = {
+  ClearingHouse: [
+    "ChangePosition",
+    "LiquidationCall",
+    "SeizeCollateral",
+    "LiquidityProvided",
+    "LiquidityRemoved",
+    "DustSold"
+  ],
+  Perpetual: ["FundingPaid", "FundingRateUpdated", "TwapUpdated"],
+  Vault: ["Deposit", "Withdraw"]
+};
+
+export type IndexedEvent<Name extends EventName = EventName> = {
+  [N in Name]: {
+    name: N;
+    blockNumber: number;
+    logIndex: number;
+    txHash: string;
+    /**
+     * Unix timestamp of the block, in seconds
+     */
+    timestamp: number;
+    address: string;
+    /**
+     * Market the event relates to, undefined for SeizeCollateral and Vault events
+     */
+    idx?: bigint;
+    args: EventArgs[N];
+  };
+}[Name];
+
+export type EventFilter<Name extends EventName = EventName> = {
+  names?: Name[];
+  idx?: bigint;
+  /**
+   * Unix timestamps in seconds, both inclusive
+   */
+  fromTime?: number;
+  toTime?: number;
+};
+
+type EventRow = {
+  block_number: number;
+  log_index: number;
+  tx_hash: string;
+  timestamp: number;
+  address: string;
+  name: EventName;
+  idx: number | null;
+  args: string;
+};
+
+// Integers are the only values serialized as strings of digits, addresses being hex strings
+const reviveArgs = (_key: string, value: any) =>
+  typeof value === "string" && /^-?\d+$/.test(value) ? BigInt(value) : value;
+
+const toIndexedEvent = (row: EventRow) => {
+  const args = JSON.parse(row.args, reviveArgs);
+  if (row.name === "ChangePosition") args.direction = Number(args.direction);
+  return {
+    name: row.name,
+    blockNumber: row.block_number,
+    logIndex: row.log_index,
+    txHash: row.tx_hash,
+    timestamp: row.timestamp,
+    address: row.address,
+    idx: row.idx === null ? undefined : BigInt(row.idx),
+    args
+  } as IndexedEvent;
+};
+
+const queryEvents = <Name extends EventName>(
+  database: IndexerDatabase,
+  conditions: string[],
+  params: any[],
+  filter: EventFilter<Name> = {}
+) => {
+  conditions = [...conditions];
+  params = [...params];
+  if (filter.names?.length) {
+    conditions.push(`name IN (${filter.names.map(() => "?").join(", ")})`);
+    params.push(...filter.names);
+  }
+  if (filter.idx !== undefined) {
+    conditions.push("idx = ?");
+    params.push(Number(filter.idx));
+  }
+  if (filter.fromTime !== undefined) {
+    conditions.push("timestamp >= ?");
+    params.push(filter.fromTime);
+  }
+  if (filter.toTime !== undefined) {
+    conditions.push("timestamp <= ?");
+    params.push(filter.toTime);
+  }
+
+  const rows = database
+    .prepare(
+      `SELECT * FROM events${
+        conditions.length ? ` WHERE ${conditions.join(" AND ")}` : ""
+      } ORDER BY block_number, log_index`
+    )
+    .all(...params) as EventRow[];
+  return rows.map(toIndexedEvent) as IndexedEvent<Name>[];
+};
+
+/**
+ * Events of an account: its trades, liquidity, funding payments, deposits and withdrawals, and the
+ * liquidations and seizures it was subject to or carried out
+ */
+export const getAccountEvents = <Name extends EventName = EventName>(
+  database: IndexerDatabase,
+  account: string,
+  filter?: EventFilter<Name>
+) =>
+  queryEvents(
+    database,
+    ["(account = ? OR counterparty = ?)"],
+    [account.toLowerCase(), account.toLowerCase()],
+    filter
+  );
+
+export const getMarketEvents = <Name extends EventName = EventName>(
+  database: IndexerDatabase,
+  idx: bigint,
+  filter?: Omit<EventFilter<Name>, "idx">
+) => queryEvents(database, ["idx = ?"], [Number(idx)], filter);
+
+export const getLiquidations = (
+  database: IndexerDatabase,
+  filter: Omit<EventFilter, "names"> & {
+    liquidatee?: string;
+    liquidator?: string;
+  } = {}
+) => {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (filter.liquidatee) {
+    conditions.push("account = ?");
+    params.push(filter.liquidatee.toLowerCase());
+  }
+  if (filter.liquidator) {
+    conditions.push("counterparty = ?");
+    params.push(filter.liquidator.toLowerCase());
+  }
+  return queryEvents(database, conditions, params, {
+    ...filter,
+    names: ["LiquidationCall"]
+  });
+};
+
+export const getFundingRateHistory = (
+  database: IndexerDatabase,
+  idx: bigint,
+  filter?: Omit<EventFilter, "idx" | "names">
+) =>
+  getMarketEvents(database, idx, {
+    ...filter,
+    names: ["FundingRateUpdated"]
+  });
+
+/**
+ * PnL realized by an account, split by origin. Liquidation profits are net of the liquidation fee.
+ * Funding payments are positive when received
+ */
+export type RealizedPnl = {
+  trading: bigint;
+  liquidity: bigint;
+  liquidations: bigint;
+  funding: bigint;
+  total: bigint;
+};
+
+export const getRealizedPnl = (
+  database: IndexerDatabase,
+  account: string,
+  filter: Omit<EventFilter, "names"> = {}
+): RealizedPnl => {
+  const pnl = { trading: 0n, liquidity: 0n, liquidations: 0n, funding: 0n };
+  const events = getAccountEvents(database, account, {
+    ...filter,
+    names: [
+      "ChangePosition",
+      "LiquidityRemoved",
+      "LiquidationCall",
+      "FundingPaid"
+    ]
+  });
+
+  for (const event of events) {
+    if (event.name === "ChangePosition") pnl.trading += event.args.profit;
+    else if (event.name === "LiquidityRemoved")
+      pnl.liquidity += event.args.profit;
+    else if (
+      event.name === "LiquidationCall" &&
+      event.args.liquidatee.toLowerCase() === account.toLowerCase()
+    )
+      pnl.liquidations += event.args.profit;
+    else if (event.name === "FundingPaid") pnl.funding += event.args.amount;
+  }
+
+  return {
+    ...pnl,
+    total: pnl.trading + pnl.liquidity + pnl.liquidations + pnl.funding
+  };
+};
@@ -0,0 +1,280 @@
+import { Interface, Result } from "ethers";
+
+// ABIs of the protocol contracts in the human-readable format of ethers, limited to what the SDK calls and decodes,
+// so that it runs without the Hardhat runtime or compiled artifacts. Errors are complete, to decode any revert
+
+const TRADER_POSITION =
+  "tuple(int128 openNotional, int128 positionSize, int128 cumFundingRate)";
+
+const LP_POSITION =
+  "tuple(int128 openNotional, int128 positionSize, uint128 liquidityBalance, uint64 depositTime, uint128 totalTradingFeesGrowth, uint128 totalBaseFeesGrowth, uint128 totalQuoteFeesGrowth, int128 cumFundingPerLpToken)";
+
+const GLOBAL_POSITION =
+  "tuple(uint64 timeOfLastTrade, uint64 timeOfLastTwapUpdate, int128 cumFundingRate, uint128 totalQuoteProvided, uint128 totalBaseProvided, int128 cumFundingPerLpToken, uint128 currentBlockTradeAmount, uint128 totalTradingFeesGrowth, uint128 totalBaseFeesGrowth, uint128 totalQuoteFeesGrowth, uint128 traderLongs, uint128 traderShorts)";
+
+const PERP_OWNABLE_ERRORS = [
+  "error PerpOwnable_NotOwner()",
+  "error PerpOwnable_TransferZeroAddress()"
+];
+
+const CLEARING_HOUSE_ABI = [
+  "function vault() view returns (address)",
+  "function perpetuals(uint256 idx) view returns (address)",
+  "function id(uint256 i) view returns (uint256)",
+  "function getNumMarkets() view returns (uint256)",
+  "function minMargin() view returns (int256)",
+  "function liquidationReward() view returns (uint256)",
+  "function liquidationRewardInsuranceShare() view returns (uint256)",
+  "function canSeizeCollateral(address liquidatee) view returns (bool)",
+  "function EMERGENCY_ADMIN() view returns (bytes32)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function deposit(uint256 amount, address token)",
+  "function withdraw(uint256 amount, address token)",
+  "function increaseAllowance(address receiver, uint256 addedAmount, address token)",
+  "function changePosition(uint256 idx, uint256 amount, uint256 minAmount, uint8 direction)",
+  "function extendPositionWithCollateral(uint256 idx, address user, uint256 collateralAmount, address token, uint256 positionAmount, uint8 direction, uint256 minAmount)",
+  "function openReversePosition(uint256 idx, uint256 closeProposedAmount, uint256 closeMinAmount, uint256 openProposedAmount, uint256 openMinAmount, uint8 direction)",
+  "function provideLiquidity(uint256 idx, uint256[2] amounts, uint256 minLpAmount)",
+  "function removeLiquidity(uint256 idx, uint256 liquidityAmountToRemove, uint256[2] minVTokenAmounts, uint256 proposedAmount, uint256 minAmount)",
+  "function liquidateTrader(uint256 idx, address liquidatee, uint256 proposedAmount, uint256 minAmount)",
+  "function liquidateLp(uint256 idx, address liquidatee, uint256[2] minVTokenAmounts, uint256 proposedAmount, uint256 minAmount)",
+  "function seizeCollateral(address liquidatee)",
+  "function settleDust(uint256 idx, uint256 proposedAmount, uint256 minAmount, uint8 direction)",
+  "function updateGlobalState()",
+  "event ChangePosition(uint256 indexed idx, address indexed user, uint8 direction, int256 addedOpenNotional, int256 addedPositionSize, int256 profit, int256 tradingFeesPayed, int256 insuranceFeesPayed, bool isPositionIncreased, bool isPositionClosed)",
+  "event LiquidationCall(uint256 indexed idx, address indexed liquidatee, address indexed liquidator, uint256 notional, int256 profit, int256 tradingFeesPayed, bool isTrader)",
+  "event SeizeCollateral(address indexed liquidatee, address indexed liquidator)",
+  "event LiquidityProvided(uint256 indexed idx, address indexed liquidityProvider, uint256 quoteAmount, uint256 baseAmount, int256 tradingFeesEarned)",
+  "event LiquidityRemoved(uint256 indexed idx, address indexed liquidityProvider, uint256 reductionRatio, int256 profit, int256 tradingFeesPayed, bool isPositionClosed)",
+  "event DustSold(uint256 indexed idx, int256 profit, int256 tradingFeesPayed)",
+  "error ClearingHouse_ZeroAddress()",
+  "error ClearingHouse_PerpetualMarketAlreadyAssigned()",
+  "error ClearingHouse_MarketDoesNotExist()",
+  "error ClearingHouse_WithdrawInsufficientMargin()",
+  "error ClearingHouse_ClosePositionStillOpen()",
+  "error ClearingHouse_LiquidateInvalidPosition()",
+  "error ClearingHouse_LiquidateValidMargin()",
+  "error ClearingHouse_LiquidateInsufficientProposedAmount()",
+  "error ClearingHouse_ProvideLiquidityZeroAmount()",
+  "error ClearingHouse_AmountProvidedTooLarge()",
+  "error ClearingHouse_RemoveLiquidityInsufficientFunds()",
+  "error ClearingHouse_InvalidMinMargin()",
+  "error ClearingHouse_ExcessivePositiveOpenNotional()",
+  "error ClearingHouse_InvalidMinMarginAtCreation()",
+  "error ClearingHouse_InvalidLiquidationReward()",
+  "error ClearingHouse_InvalidInsuranceRatio()",
+  "error ClearingHouse_ExcessiveLiquidationRewardInsuranceShare()",
+  "error ClearingHouse_InsufficientDiffBtwLiquidationDiscountAndNonUACollSeizureDiscount()",
+  "error ClearingHouse_ExcessiveLiquidationDiscount()",
+  "error ClearingHouse_InsufficientUaDebtSeizureThreshold()",
+  "error ClearingHouse_ExtendPositionZeroAmount()",
+  "error ClearingHouse_ExtendPositionInsufficientMargin()",
+  "error ClearingHouse_ReducePositionZeroAmount()",
+  "error ClearingHouse_ChangePositionZeroAmount()",
+  "error ClearingHouse_UnderOpenNotionalAmountRequired()",
+  "error ClearingHouse_LiquidationDebtSizeZero()",
+  "error ClearingHouse_SufficientUserCollateral()",
+  "error ClearingHouse_DepositForZeroAddress()",
+  "error ClearingHouse_NegativeDustProceeds()"
+];
+
+const CLEARING_HOUSE_VIEWER_ABI = [
+  "function getExpectedVBaseAmount(uint256 idx, uint256 vQuoteAmountToSpend) view returns (uint256)",
+  "function getExpectedVQuoteAmount(uint256 idx, uint256 vBaseAmountToSpend) view returns (uint256)",
+  "function getExpectedLpTokenAmount(uint256 idx, uint256[2] amounts) view returns (uint256)",
+  "function getExpectedVirtualTokenAmountsFromLpTokenAmount(uint256 idx, address account, uint256 lpTokenAmountToWithdraw) view returns (uint256[2])",
+  "function indexPrice(uint256 idx) view returns (int256)",
+  `function getGlobalPosition(uint256 idx) view returns (${GLOBAL_POSITION})`,
+  "function getBaseDust(uint256 idx) view returns (int256)",
+  "function marginRatio(address account) view returns (int256)",
+  `function getTraderPosition(uint256 idx, address account) view returns (${TRADER_POSITION})`,
+  "function getLpFundingPayments(uint256 idx, address account) view returns (int256)",
+  "function getLpEstimatedPnl(uint256 idx, address account) view returns (int256)",
+  "function getLpTradingFees(uint256 idx, address account) view returns (uint256)",
+  `function getLpPositionAfterWithdrawal(uint256 idx, address account) view returns (${TRADER_POSITION})`,
+  `function getLpPosition(uint256 idx, address account) view returns (${LP_POSITION})`,
+  "function getTraderProposedAmount(uint256 idx, address user, uint256 reductionRatio, uint256 iter, uint256 minAmount) view returns (uint256 proposedAmount)",
+  "function getLpProposedAmount(uint256 idx, address user, uint256 reductionRatio, uint256 iter, uint256[2] minVTokenAmounts, uint256 minAmount) returns (uint256 proposedAmount)",
+  "function removeLiquiditySwap(uint256 idx, address user, uint256 liquidityAmountToRemove, uint256[2] minVTokenAmounts, uint256 proposedAmount, uint8 direction, bool withCurveTradingFees) returns (uint256 proceeds)",
+  "error ClearingHouseViewer_ZeroAddressConstructor(uint8 paramIndex)",
+  "error ClearingHouseViewer_LpTokenAmountPassedLargerThanBalance()",
+  "error ClearingHouseViewer_ReductionRatioTooLarge()"
+];
+
+const VAULT_ABI = [
+  "function getWhiteListedCollateral(uint256 idx) view returns (tuple(address asset, uint256 weight, uint8 decimals, uint256 currentAmount, uint256 maxAmount))",
+  "function getNumberOfCollaterals() view returns (uint256)",
+  "function getAllowance(address user, address receiver, uint256 tokenIdx) view returns (uint256)",
+  "event Deposit(address indexed user, address indexed asset, uint256 amount)",
+  "event Withdraw(address indexed user, address indexed asset, uint256 amount)",
+  "error Vault_ZeroAddressConstructor(uint8 paramIndex)",
+  "error Vault_UADebt()",
+  "error Vault_SenderNotClearingHouse()",
+  "error Vault_SenderNotInsurance()",
+  "error Vault_UnsupportedCollateral()",
+  "error Vault_CollateralAlreadyWhiteListed()",
+  "error Vault_WithdrawInsufficientAllowance()",
+  "error Vault_WithdrawExcessiveAmount()",
+  "error Vault_ClearingHouseZeroAddress()",
+  "error Vault_ClearingHouseAlreadySet()",
+  "error Vault_InsuranceZeroAddress()",
+  "error Vault_InsuranceAlreadySet()",
+  "error Vault_OracleZeroAddress()",
+  "error Vault_InsufficientCollateralWeight()",
+  "error Vault_ExcessiveCollateralWeight()",
+  "error Vault_InsufficientBalance()",
+  "error Vault_MaxCollateralAmountExceeded()",
+  "error Vault_ApproveZeroAddress()"
+];
+
+const INSURANCE_ABI = [
+  "error Insurance_ZeroAddressConstructor(uint8 paramIndex)",
+  "error Insurance_SenderNotVault()",
+  "error Insurance_SenderNotClearingHouse()",
+  "error Insurance_InsufficientInsurance()",
+  "error Insurance_ClearingHouseZeroAddress()",
+  "error Insurance_ClearingHouseAlreadySet()"
+];
+
+const ORACLE_ABI = [
+  "function assetToOracles(address asset) view returns (uint24 heartBeat, address aggregator, bool isVaultAsset, int256 fixedPrice)",
+  "function gracePeriod() view returns (uint256)",
+  "function sequencerUptimeFeed() view returns (address)",
+  "function getPrice(address asset, int256 balance) view returns (int256)",
+  "event OracleUpdated(address asset, address aggregator, bool isVault)",
+  "error Oracle_IncorrectHeartBeat()",
+  "error Oracle_InvalidRoundTimestamp()",
+  "error Oracle_InvalidRoundPrice()",
+  "error Oracle_DataNotFresh()",
+  "error Oracle_AssetZeroAddress()",
+  "error Oracle_AggregatorZeroAddress()",
+  "error Oracle_SequencerUptimeFeedZeroAddress()",
+  "error Oracle_UnsupportedAsset()",
+  "error Oracle_SequencerDown()",
+  "error Oracle_GracePeriodNotOver()",
+  "error Oracle_IncorrectGracePeriod()"
+];
+
+const UA_ABI = [
+  "function getNumReserveTokens() view returns (uint256)",
+  "function getReserveToken(uint256 idx) view returns (tuple(address asset, uint256 currentReserves, uint256 mintCap))",
+  "error UA_ReserveTokenZeroAddress()",
+  "error UA_ReserveTokenAlreadyAssigned()",
+  "error UA_ExcessiveTokenMintCapReached()",
+  "error UA_UnsupportedReserveToken()"
+];
+
+const UA_HELPER_ABI = [
+  "function depositReserveToken(address token, uint256 amount)",
+  "function depositReserveToken(address token, uint256 amount, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+  "function withdrawReserveToken(address token, uint256 amount)"
+];
+
+const PERPETUAL_ABI = [
+  "function paused() view returns (bool)",
+  "function twapFrequency() view returns (uint256)",
+  "function oracleTwap() view returns (int128)",
+  "function marketTwap() view returns (int128)",
+  "function isTraderPositionOpen(address account) view returns (bool)",
+  "function isLpPositionOpen(address account) view returns (bool)",
+  "function getLpOpenNotional(address account) view returns (int256)",
+  "event FundingRateUpdated(int256 cumulativeFundingRate, int256 cumulativeFundingPerLpToken, int256 fundingRate)",
+  "error Perpetual_TradingExpansionPaused()",
+  "error Perpetual_ZeroAddressConstructor(uint256 paramIndex)",
+  "error Perpetual_VirtualTokenApprovalConstructor(uint256 tokenIndex)",
+  "error Perpetual_InvalidAdminFee()",
+  "error Perpetual_SenderNotClearingHouse()",
+  "error Perpetual_SenderNotClearingHouseOwner()",
+  "error Perpetual_AttemptReducePosition()",
+  "error Perpetual_AttemptReversePosition()",
+  "error Perpetual_ExcessiveBlockTradeAmount()",
+  "error Perpetual_NoOpenPosition()",
+  "error Perpetual_LPWithdrawExceedsBalance()",
+  "error Perpetual_TwapFrequencyInvalid(uint256 twapFrequency)",
+  "error Perpetual_SensitivityInvalid(int256 sensitivity)",
+  "error Perpetual_MaxBlockAmountInvalid(uint256 maxBlockTradeAmount)",
+  "error Perpetual_InsuranceFeeInvalid(int256 fee)",
+  "error Perpetual_LpDebtCoefInvalid(int256 lpDebtCoef)",
+  "error Perpetual_LockPeriodInvalid(uint256 lockPeriod)",
+  "error Perpetual_RiskWeightInvalid(uint256 riskWeight)",
+  "error Perpetual_MarketBalanceTooLow()",
+  "error Perpetual_LPOpenPosition()",
+  "error Perpetual_MaxLiquidityProvided()",
+  "error Perpetual_MaxPositionSize()",
+  "error Perpetual_LpAmountDeviation()",
+  "error Perpetual_LockPeriodNotReached(uint256 withdrawTime)",
+  "error Perpetual_TooMuchExposure()"
+];
+
+const PERP_SETTLEMENT_ABI = [
+  "error Settlement_InvalidMerkleProof()",
+  "error Settlement_MustPostPositionProof()",
+  "error Settlement_OpenPositionNotAllowed()",
+  "error Settlement_ProvideLiquidityNotAllowed()",
+  "error Settlement_RemoveLiquidityNotAllowed()",
+  "error Settlement_ToggleTradingExpansionNotAllowed()",
+  "error Settlement_SetParametersNotAllowed()"
+];
+
+const VBASE_ABI = [
+  "error VBase_IncorrectHeartBeat()",
+  "error VBase_InsufficientPrecision()",
+  "error VBase_InvalidRoundTimestamp()",
+  "error VBase_InvalidRoundPrice()",
+  "error VBase_DataNotFresh()",
+  "error VBase_SequencerUptimeFeedZeroAddress()",
+  "error VBase_IncorrectGracePeriod()",
+  "error VBase_SequencerDown()",
+  "error VBase_GracePeriodNotOver()",
+  ...PERP_OWNABLE_ERRORS
+];
+
+const ABIS = {
+  ClearingHouse: CLEARING_HOUSE_ABI,
+  ClearingHouseViewer: CLEARING_HOUSE_VIEWER_ABI,
+  Vault: VAULT_ABI,
+  Insurance: INSURANCE_ABI,
+  Oracle: ORACLE_ABI,
+  UA: UA_ABI,
+  UAHelper: UA_HELPER_ABI,
+  Perpetual: PERPETUAL_ABI,
+  PerpSettlement: PERP_SETTLEMENT_ABI,
+  VBase: VBASE_ABI,
+  VQuote: PERP_OWNABLE_ERRORS
+};
+
+export type SdkContract = keyof typeof ABIS;
+
+/**
+ * Contracts whose errors the SDK decodes
+ */
+export const SDK_CONTRACTS = Object.keys(ABIS) as SdkContract[];
+
+const interfaces: Partial<Record<SdkContract, Interface>> = {};
+
+export const getInterface = (contract: SdkContract) => {
+  if (!interfaces[contract])
+    interfaces[contract] = new Interface(ABIS[contract]);
+  return interfaces[contract]!;
+};
+
+/**
+ * Converts decoded values to plain strings, numbers, arrays and objects which can be printed or serialized
+ */
+export const formatValue = (value: any): any => {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof Result) {
+    let object: Record<string, any>;
+    try {
+      object = value.toObject();
+    } catch {
+      // Unnamed values (e.g. returned values) are kept as arrays
+      return value.toArray().map(formatValue);
+    }
+    return Object.fromEntries(
+      Object.entries(object).map(([key, item]) => [key, formatValue(item)])
+    );
+  }
+  if (Array.isArray(value)) return value.map(formatValue);
+  return value;
+};
@@ -0,0 +1,174 @@
+import {
+  Contract,
+  ContractTransactionResponse,
+  LogDescription,
+  TransactionReceipt
+} from "ethers";
+import { Wallet } from "zksync-ethers";
+
+import { getInterface } from "./abi";
+import { withProtocolErrors } from "./errors";
+
+/**
+ * Values of `LibPerpetual.Side`
+ */
+export const Side = { Long: 0, Short: 1 } as const;
+export type Side = typeof Side[keyof typeof Side];
+
+export type TradeOptions = {
+  /**
+   * Maximum deviation from the expected amount, in percent. Defaults to 1
+   */
+  slippage?: number;
+};
+
+export type SdkAddresses = {
+  CLEARING_HOUSE: string;
+  CLEARING_HOUSE_VIEWER: string;
+};
+
+export const DEFAULT_SLIPPAGE = 1;
+
+// Iterations used by the viewer to search for the amount closing a position
+export const PROPOSED_AMOUNT_ITERATIONS = 100;
+
+const ERC20_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)"
+];
+
+/**
+ * Applies a slippage tolerance, given in percent, to an expected amount
+ */
+export const applySlippage = (
+  expectedAmount: bigint,
+  slippage = DEFAULT_SLIPPAGE
+) => {
+  if (slippage < 0 || slippage >= 100)
+    throw `⛔️ Slippage must be between 0 and 100%, got ${slippage}`;
+  const slippageBps = BigInt(Math.round(slippage * 100));
+  return (expectedAmount * (10000n - slippageBps)) / 10000n;
+};
+
+/**
+ * Attaches the ClearingHouse, ClearingHouseViewer and Vault to a wallet
+ */
+export const connectProtocol = async (
+  wallet: Wallet,
+  addresses: SdkAddresses
+) => {
+  const clearingHouse = new Contract(
+    addresses.CLEARING_HOUSE,
+    getInterface("ClearingHouse"),
+    wallet
+  );
+  const viewer = new Contract(
+    addresses.CLEARING_HOUSE_VIEWER,
+    getInterface("ClearingHouseViewer"),
+    wallet
+  );
+  const vaultAddress: string = await clearingHouse.vault();
+  const vault = new Contract(vaultAddress, getInterface("Vault"), wallet);
+
+  /**
+   * Sends a ClearingHouse transaction and returns its receipt along with the events named `eventName` emitted by
+   * `emitter`, the ClearingHouse by default
+   */
+  const send = (
+    call: () => Promise<ContractTransactionResponse>,
+    eventName: string,
+    emitter: Contract = clearingHouse
+  ) =>
+    withProtocolErrors(async () => {
+      const tx = await call();
+      const receipt: TransactionReceipt = (await tx.wait())!;
+      const emitterAddress = (await emitter.getAddress()).toLowerCase();
+
+      const events: LogDescription[] = [];
+      for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== emitterAddress) continue;
+        const event = emitter.interface.parseLog({
+          topics: [...log.topics],
+          data: log.data
+        });
+        if (event?.name === eventName) events.push(event);
+      }
+      return { receipt, events };
+    });
+
+  /**
+   * Approves the Vault to pull `amount` of `token`, if it can't already
+   */
+  const ensureAllowance = async (token: string, amount: bigint) => {
+    const erc20 = new Contract(token, ERC20_ABI, wallet);
+    const allowance: bigint = await erc20.allowance(
+      wallet.address,
+      vaultAddress
+    );
+    if (allowance < amount) {
+      const approveTx = await erc20.approve(vaultAddress, amount);
+      await approveTx.wait();
+    }
+  };
+
+  /**
+   * Minimum amount to accept when selling `amount` in `direction`: vBase received when going long
+   * with vQuote, vQuote received when going short with vBase
+   */
+  const getMinAmount = async (
+    idx: bigint,
+    direction: Side,
+    amount: bigint,
+    slippage = DEFAULT_SLIPPAGE
+  ) => {
+    if (amount === 0n) return 0n;
+    const expectedAmount: bigint = await withProtocolErrors(() =>
+      direction === Side.Long
+        ? viewer.getExpectedVBaseAmount(idx, amount)
+        : viewer.getExpectedVQuoteAmount(idx, amount)
+    );
+    return applySlippage(expectedAmount, slippage);
+  };
+
+  /**
+   * Minimum amount to accept when selling `proposedAmount` in `direction` to close the position left by withdrawing
+   * `liquidityAmountToRemove` from the LP position of `account`. Unlike `getMinAmount`, the sale is quoted against the
+   * pool once the liquidity is withdrawn, which is the one the removal trades against
+   */
+  const getMinAmountAfterWithdrawal = async (
+    idx: bigint,
+    account: string,
+    liquidityAmountToRemove: bigint,
+    minVTokenAmounts: [bigint, bigint],
+    direction: Side,
+    proposedAmount: bigint,
+    slippage = DEFAULT_SLIPPAGE
+  ) => {
+    if (proposedAmount === 0n) return 0n;
+    // removeLiquiditySwap withdraws the liquidity then reverts with the proceeds, so it has to be static called.
+    // The proceeds are net of the pool fees, as the amount `exchange` checks against the minimum
+    const expectedAmount: bigint = await withProtocolErrors(() =>
+      viewer.removeLiquiditySwap.staticCall(
+        idx,
+        account,
+        liquidityAmountToRemove,
+        minVTokenAmounts,
+        proposedAmount,
+        direction,
+        false
+      )
+    );
+    return applySlippage(expectedAmount, slippage);
+  };
+
+  return {
+    wallet,
+    clearingHouse,
+    viewer,
+    vault,
+    send,
+    ensureAllowance,
+    getMinAmount,
+    getMinAmountAfterWithdrawal
+  };
+};
@@ -0,0 +1,86 @@
+import { ErrorDescription } from "ethers";
+
+import { formatValue, getInterface, SDK_CONTRACTS } from "./abi";
+
+/**
+ * A call reverted with one of the protocol's custom errors (e.g. `ClearingHouse_ExtendPositionInsufficientMargin`),
+ * or with a plain `Error(string)`/`Panic(uint256)`
+ */
+export class ProtocolError extends Error {
+  readonly errorName: string;
+  /**
+   * Contract declaring the error, undefined for `Error(string)` and `Panic(uint256)`
+   */
+  readonly contract?: string;
+  readonly args: Record<string, any>;
+  readonly originalError: unknown;
+
+  constructor(
+    contract: string | undefined,
+    description: ErrorDescription,
+    originalError: unknown
+  ) {
+    const args = Object.fromEntries(
+      description.fragment.inputs.map((input, i) => [
+        input.name || `${i}`,
+        formatValue(description.args[i])
+      ])
+    );
+    super(`${description.name}(${Object.values(args).join(", ")})`);
+    this.name = "ProtocolError";
+    this.errorName = description.name;
+    this.contract = contract;
+    this.args = args;
+    this.originalError = originalError;
+  }
+}
+
+export const isProtocolError = (
+  error: unknown,
+  errorName?: string
+): error is ProtocolError =>
+  error instanceof ProtocolError &&
+  (errorName === undefined || error.errorName === errorName);
+
+/**
+ * Extracts revert data from the errors thrown by ethers, which nest it differently depending on the call
+ */
+const getRevertData = (error: any): string | undefined => {
+  for (const data of [
+    error?.data,
+    error?.info?.error?.data,
+    error?.error?.data
+  ])
+    if (typeof data === "string" && data.startsWith("0x")) return data;
+};
+
+/**
+ * Converts an error thrown by a contract call into a ProtocolError when its revert data matches
+ * an error of the protocol contracts, otherwise returns it unchanged
+ */
+export const toProtocolError = async (error: unknown) => {
+  const data = getRevertData(error);
+  if (!data) return error;
+
+  for (const contract of SDK_CONTRACTS) {
+    const description = getInterface(contract).parseError(data);
+    if (description)
+      return new ProtocolError(
+        ["Error", "Panic"].includes(description.name) ? undefined : contract,
+        description,
+        error
+      );
+  }
+  return error;
+};
+
+/**
+ * Runs a contract call, rethrowing protocol reverts as ProtocolErrors
+ */
+export const withProtocolErrors = async <T>(call: () => Promise<T>) => {
+  try {
+    return await call();
+  } catch (error) {
+    throw await toProtocolError(error);
+  }
+};
@@ -0,0 +1,43 @@
+import { Filter, Log, Provider } from "ethers";
+
+/**
+ * Finds the block a contract was deployed in, by binary search over its code. Needs an archive node
+ */
+export const findDeploymentBlock = async (
+  provider: Provider,
+  address: string
+) => {
+  let low = 0;
+  let high = await provider.getBlockNumber();
+  if ((await provider.getCode(address, high)) === "0x")
+    throw `⛔️ No contract deployed at ${address}!`;
+
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await provider.getCode(address, middle)) === "0x") low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+/**
+ * Fetches logs over a block range, splitting the range whenever the node refuses to return that many logs at once
+ */
+export const getLogsInRange = async (
+  provider: Provider,
+  filter: Omit<Filter, "fromBlock" | "toBlock">,
+  fromBlock: number,
+  toBlock: number
+): Promise<Log[]> => {
+  try {
+    return await provider.getLogs({ ...filter, fromBlock, toBlock });
+  } catch (error) {
+    if (fromBlock === toBlock) throw error;
+
+    const middle = Math.floor((fromBlock + toBlock) / 2);
+    return [
+      ...(await getLogsInRange(provider, filter, fromBlock, middle)),
+      ...(await getLogsInRange(provider, filter, middle + 1, toBlock))
+    ];
+  }
+};
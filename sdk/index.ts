@@ -0,0 +1,10 @@
+export * from "./abi";
+export * from "./errors";
+export * from "./common";
+export * from "./events";
+export * from "./trader";
+export * from "./liquidity";
+export * from "./liquidator";
+export * from "./maintenance";
+export * from "./reserve";
+export * from "./oracle-monitor";
@@ -0,0 +1,464 @@
+import { Contract, LogDescription, TransactionReceipt } from "ethers";
+import { Wallet } from "zksync-ethers";
+
+import { getInterface } from "./abi";
+import { findDeploymentBlock, getLogsInRange } from "./events";
+import { isProtocolError, withProtocolErrors } from "./errors";
+import {
+  applySlippage,
+  connectProtocol,
+  PROPOSED_AMOUNT_ITERATIONS,
+  SdkAddresses,
+  Side,
+  TradeOptions
+} from "./common";
+
+const WAD = 10n ** 18n;
+
+export type LiquidationKeeperOptions = TradeOptions & {
+  /**
+   * Only log the liquidations which would be submitted
+   */
+  dryRun?: boolean;
+  /**
+   * First block to read accounts from. Defaults to the deployment block of the ClearingHouse (needs an archive node)
+   */
+  fromBlock?: number;
+  /**
+   * Minimum reward of the liquidator, net of gas costs, for a liquidation to be submitted. In UA, 18 decimals
+   */
+  minReward?: bigint;
+  /**
+   * Price of ETH in UA (18 decimals), to deduct gas costs from rewards. Gas costs are ignored if not set
+   */
+  ethPrice?: bigint;
+  /**
+   * Seize the non-UA collaterals of accounts with UA debt whenever possible. Defaults to true
+   */
+  seizeCollateral?: boolean;
+  /**
+   * Milliseconds between two scans of the accounts. Defaults to 30s
+   */
+  pollInterval?: number;
+  log?: (message: string) => void;
+};
+
+export type LiquidationQuote = {
+  account: string;
+  idx: bigint;
+  isTrader: boolean;
+  marginRatio: bigint;
+  /**
+   * Set for LP liquidations, [vQuote, vBase]
+   */
+  minVTokenAmounts?: [bigint, bigint];
+  proposedAmount: bigint;
+  minAmount: bigint;
+  /**
+   * Share of the liquidation reward paid to the liquidator. In UA, 18 decimals
+   */
+  estimatedReward: bigint;
+  /**
+   * Gas cost of the liquidation in UA, 0 if `ethPrice` isn't set
+   */
+  estimatedGasCost: bigint;
+};
+
+export type LiquidationResult = {
+  quote: LiquidationQuote;
+  /**
+   * Undefined in dry-run mode
+   */
+  receipt?: TransactionReceipt;
+  events: LogDescription[];
+};
+
+export type SeizeCollateralResult = {
+  account: string;
+  receipt?: TransactionReceipt;
+  events: LogDescription[];
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const abs = (value: bigint) => (value < 0n ? -value : value);
+
+/**
+ * Creates a keeper liquidating the traders and LPs falling below the minimum margin ratio, and seizing
+ * the collaterals of accounts left with UA debt. Accounts are discovered from the ChangePosition and
+ * LiquidityProvided events of the ClearingHouse
+ */
+export const createLiquidationKeeper = async (
+  wallet: Wallet,
+  addresses: SdkAddresses,
+  options: LiquidationKeeperOptions = {}
+) => {
+  const {
+    clearingHouse,
+    viewer,
+    send,
+    getMinAmount,
+    getMinAmountAfterWithdrawal
+  } = await connectProtocol(wallet, addresses);
+  const provider = wallet.provider;
+  const log = options.log ?? console.log;
+  const clearingHouseAddress = await clearingHouse.getAddress();
+  const perpetualInterface = getInterface("Perpetual");
+
+  // Markets each account has traded or provided liquidity on
+  const accounts = new Map<string, Set<bigint>>();
+  let nextBlock =
+    options.fromBlock ??
+    (await findDeploymentBlock(provider, clearingHouseAddress));
+
+  const perpetuals = new Map<bigint, Contract>();
+  const getPerpetual = async (idx: bigint) => {
+    if (!perpetuals.has(idx))
+      perpetuals.set(
+        idx,
+        new Contract(
+          await clearingHouse.perpetuals(idx),
+          perpetualInterface,
+          provider
+        )
+      );
+    return perpetuals.get(idx)!;
+  };
+
+  /**
+   * Reads the accounts which opened positions since the last sync
+   */
+  const syncAccounts = async () => {
+    const latestBlock = await provider.getBlockNumber();
+    if (latestBlock < nextBlock) return accounts;
+
+    const logs = await getLogsInRange(
+      provider,
+      {
+        address: clearingHouseAddress,
+        topics: [
+          [
+            clearingHouse.interface.getEvent("ChangePosition")!.topicHash,
+            clearingHouse.interface.getEvent("LiquidityProvided")!.topicHash
+          ]
+        ]
+      },
+      nextBlock,
+      latestBlock
+    );
+    for (const log of logs) {
+      const event = clearingHouse.interface.parseLog({
+        topics: [...log.topics],
+        data: log.data
+      })!;
+      const account: string =
+        event.name === "ChangePosition"
+          ? event.args.user
+          : event.args.liquidityProvider;
+      if (!accounts.has(account)) accounts.set(account, new Set());
+      accounts.get(account)!.add(event.args.idx);
+    }
+    nextBlock = latestBlock + 1;
+    return accounts;
+  };
+
+  /**
+   * Margin ratio of the account if it can be liquidated, undefined otherwise
+   */
+  const getLiquidatableMarginRatio = async (account: string) => {
+    const marginRatio: bigint = await viewer.marginRatio(account);
+    const minMargin: bigint = await clearingHouse.minMargin();
+    return marginRatio < minMargin ? marginRatio : undefined;
+  };
+
+  const estimateReward = async (positiveOpenNotional: bigint) => {
+    const liquidationReward: bigint = await clearingHouse.liquidationReward();
+    const insuranceShare: bigint = await clearingHouse.liquidationRewardInsuranceShare();
+    const reward = (positiveOpenNotional * liquidationReward) / WAD;
+    return reward - (reward * insuranceShare) / WAD;
+  };
+
+  const estimateGasCost = async (gasLimit: bigint) => {
+    if (!options.ethPrice) return 0n;
+    const { gasPrice } = await provider.getFeeData();
+    return (gasLimit * (gasPrice ?? 0n) * options.ethPrice) / WAD;
+  };
+
+  const quoteTraderLiquidation = async (
+    account: string,
+    idx: bigint,
+    marginRatio: bigint
+  ): Promise<LiquidationQuote> => {
+    const { openNotional, positionSize } = await viewer.getTraderPosition(
+      idx,
+      account
+    );
+    const proposedAmount: bigint = await withProtocolErrors(() =>
+      viewer.getTraderProposedAmount(
+        idx,
+        account,
+        WAD,
+        PROPOSED_AMOUNT_ITERATIONS,
+        0
+      )
+    );
+    const minAmount = await getMinAmount(
+      idx,
+      positionSize > 0n ? Side.Short : Side.Long,
+      proposedAmount,
+      options.slippage
+    );
+    const gasLimit: bigint = await withProtocolErrors(() =>
+      clearingHouse.liquidateTrader.estimateGas(
+        idx,
+        account,
+        proposedAmount,
+        minAmount
+      )
+    );
+
+    return {
+      account,
+      idx,
+      isTrader: true,
+      marginRatio,
+      proposedAmount,
+      minAmount,
+      estimatedReward: await estimateReward(abs(openNotional)),
+      estimatedGasCost: await estimateGasCost(gasLimit)
+    };
+  };
+
+  const quoteLpLiquidation = async (
+    account: string,
+    idx: bigint,
+    marginRatio: bigint
+  ): Promise<LiquidationQuote> => {
+    const { liquidityBalance } = await viewer.getLpPosition(idx, account);
+    const expectedVTokenAmounts: bigint[] = await viewer.getExpectedVirtualTokenAmountsFromLpTokenAmount(
+      idx,
+      account,
+      liquidityBalance
+    );
+    const minVTokenAmounts = expectedVTokenAmounts.map(amount =>
+      applySlippage(amount, options.slippage)
+    ) as [bigint, bigint];
+
+    // getLpProposedAmount simulates the withdrawal of the whole liquidity, so it has to be static called
+    const proposedAmount: bigint = await withProtocolErrors(() =>
+      viewer.getLpProposedAmount.staticCall(
+        idx,
+        account,
+        WAD,
+        PROPOSED_AMOUNT_ITERATIONS,
+        minVTokenAmounts,
+        0
+      )
+    );
+    const { positionSize } = await viewer.getLpPositionAfterWithdrawal(
+      idx,
+      account
+    );
+    // The reward is charged on the open notional of the LP position, not of the position left after the withdrawal
+    const openNotional: bigint = await (
+      await getPerpetual(idx)
+    ).getLpOpenNotional(account);
+    const minAmount = await getMinAmountAfterWithdrawal(
+      idx,
+      account,
+      liquidityBalance,
+      minVTokenAmounts,
+      positionSize > 0n ? Side.Short : Side.Long,
+      proposedAmount,
+      options.slippage
+    );
+    const gasLimit: bigint = await withProtocolErrors(() =>
+      clearingHouse.liquidateLp.estimateGas(
+        idx,
+        account,
+        minVTokenAmounts,
+        proposedAmount,
+        minAmount
+      )
+    );
+
+    return {
+      account,
+      idx,
+      isTrader: false,
+      marginRatio,
+      minVTokenAmounts,
+      proposedAmount,
+      minAmount,
+      estimatedReward: await estimateReward(abs(openNotional)),
+      estimatedGasCost: await estimateGasCost(gasLimit)
+    };
+  };
+
+  const isProfitable = (quote: LiquidationQuote) =>
+    quote.estimatedReward - quote.estimatedGasCost >= (options.minReward ?? 0n);
+
+  const liquidate = async (
+    quote: LiquidationQuote
+  ): Promise<LiquidationResult> => {
+    const position = `${quote.isTrader ? "trader" : "LP"} position of ${
+      quote.account
+    } on market ${quote.idx}`;
+    log(
+      `${
+        options.dryRun ? "[dry run] Would liquidate" : "Liquidating"
+      } ${position} (margin ratio ${quote.marginRatio}, reward ${
+        quote.estimatedReward
+      }, gas ${quote.estimatedGasCost})`
+    );
+    if (options.dryRun) return { quote, events: [] };
+
+    const { receipt, events } = await send(
+      () =>
+        quote.isTrader
+          ? clearingHouse.liquidateTrader(
+              quote.idx,
+              quote.account,
+              quote.proposedAmount,
+              quote.minAmount
+            )
+          : clearingHouse.liquidateLp(
+              quote.idx,
+              quote.account,
+              quote.minVTokenAmounts,
+              quote.proposedAmount,
+              quote.minAmount
+            ),
+      "LiquidationCall"
+    );
+    log(`✅ Liquidated ${position} in ${receipt.hash}`);
+    return { quote, receipt, events };
+  };
+
+  const canSeizeCollateral = async (account: string) => {
+    try {
+      return await withProtocolErrors<boolean>(() =>
+        clearingHouse.canSeizeCollateral(account)
+      );
+    } catch (error) {
+      // Accounts without UA debt revert instead of returning false
+      if (isProtocolError(error, "ClearingHouse_LiquidationDebtSizeZero"))
+        return false;
+      throw error;
+    }
+  };
+
+  /**
+   * Buys the non-UA collaterals of the account at a discount, paying its UA debt with the UA of the keeper
+   */
+  const seizeCollateral = async (
+    account: string
+  ): Promise<SeizeCollateralResult> => {
+    log(
+      `${
+        options.dryRun ? "[dry run] Would seize" : "Seizing"
+      } the collaterals of ${account}`
+    );
+    if (options.dryRun) return { account, events: [] };
+
+    const { receipt, events } = await send(
+      () => clearingHouse.seizeCollateral(account),
+      "SeizeCollateral"
+    );
+    log(`✅ Seized the collaterals of ${account} in ${receipt.hash}`);
+    return { account, receipt, events };
+  };
+
+  /**
+   * Liquidates the positions of an account one market at a time, until its margin ratio is back above the minimum
+   */
+  const processAccount = async (account: string, markets: Set<bigint>) => {
+    const liquidations: LiquidationResult[] = [];
+
+    for (const idx of markets) {
+      const perpetual = await getPerpetual(idx);
+      for (const isTrader of [true, false]) {
+        const marginRatio = await getLiquidatableMarginRatio(account);
+        if (marginRatio === undefined) break;
+
+        const isOpen: boolean = isTrader
+          ? await perpetual.isTraderPositionOpen(account)
+          : await perpetual.isLpPositionOpen(account);
+        if (!isOpen) continue;
+
+        try {
+          const quote = isTrader
+            ? await quoteTraderLiquidation(account, idx, marginRatio)
+            : await quoteLpLiquidation(account, idx, marginRatio);
+          if (!isProfitable(quote)) {
+            log(
+              `Skipping unprofitable liquidation of ${account} on market ${idx} (reward ${quote.estimatedReward}, gas ${quote.estimatedGasCost})`
+            );
+            continue;
+          }
+          liquidations.push(await liquidate(quote));
+          // In dry-run mode the margin ratio doesn't change, so only the first position gets reported
+          if (options.dryRun) return liquidations;
+        } catch (error) {
+          log(
+            `⚠️ Couldn't liquidate ${account} on market ${idx}: ${
+              isProtocolError(error) ? error.message : error
+            }`
+          );
+        }
+      }
+    }
+    return liquidations;
+  };
+
+  /**
+   * Syncs the accounts, then liquidates and seizes everything that can be
+   */
+  const scan = async () => {
+    await syncAccounts();
+
+    const liquidations: LiquidationResult[] = [];
+    const seizures: SeizeCollateralResult[] = [];
+    for (const [account, markets] of accounts) {
+      liquidations.push(...(await processAccount(account, markets)));
+
+      if (
+        options.seizeCollateral !== false &&
+        (await canSeizeCollateral(account))
+      )
+        seizures.push(await seizeCollateral(account));
+    }
+    return { liquidations, seizures };
+  };
+
+  /**
+   * Scans the accounts every `pollInterval` until `shouldStop` returns true
+   */
+  const run = async (shouldStop: () => boolean = () => false) => {
+    while (!shouldStop()) {
+      const { liquidations, seizures } = await scan();
+      log(
+        `Scanned ${accounts.size} account(s): ${liquidations.length} liquidation(s), ${seizures.length} seizure(s)`
+      );
+      await sleep(options.pollInterval ?? 30000);
+    }
+  };
+
+  return {
+    clearingHouse,
+    viewer,
+    accounts,
+    syncAccounts,
+    quoteTraderLiquidation,
+    quoteLpLiquidation,
+    liquidate,
+    canSeizeCollateral,
+    seizeCollateral,
+    scan,
+    run
+  };
+};
+
+export type LiquidationKeeper = Awaited<
+  ReturnType<typeof createLiquidationKeeper>
+>;
@@ -0,0 +1,236 @@
+import { LogDescription, TransactionReceipt } from "ethers";
+import { Wallet } from "zksync-ethers";
+
+import { withProtocolErrors } from "./errors";
+import {
+  applySlippage,
+  connectProtocol,
+  PROPOSED_AMOUNT_ITERATIONS,
+  SdkAddresses,
+  Side,
+  TradeOptions
+} from "./common";
+
+const WAD = 10n ** 18n;
+
+/**
+ * Earnings of an LP position, as reported by the ClearingHouseViewer. 18 decimals
+ */
+export type LpReport = {
+  liquidityBalance: bigint;
+  tradingFees: bigint;
+  fundingPayments: bigint;
+  estimatedPnl: bigint;
+};
+
+export type ProvideLiquidityQuote = {
+  /**
+   * Virtual tokens provided, [vQuote, vBase]
+   */
+  amounts: [bigint, bigint];
+  expectedLpTokenAmount: bigint;
+  minLpAmount: bigint;
+};
+
+export type RemoveLiquidityQuote = {
+  reductionRatio: bigint;
+  liquidityAmountToRemove: bigint;
+  /**
+   * Virtual tokens withdrawn from the pool, [vQuote, vBase]
+   */
+  expectedVTokenAmounts: [bigint, bigint];
+  minVTokenAmounts: [bigint, bigint];
+  /**
+   * Amount sold to close the active position left by the withdrawal, in vBase if it is long, in vQuote if it is short
+   */
+  proposedAmount: bigint;
+  minAmount: bigint;
+  report: LpReport;
+};
+
+export type LiquidityOptions<Quote> = TradeOptions & {
+  /**
+   * Called with the quote before submitting the transaction, which is cancelled if it returns false
+   */
+  confirm?: (quote: Quote) => boolean | Promise<boolean>;
+};
+
+export type LiquidityResult<Quote> = {
+  quote: Quote;
+  receipt: TransactionReceipt;
+  events: LogDescription[];
+};
+
+/**
+ * Creates a client managing liquidity positions with the given wallet
+ */
+export const createLiquiditySdk = async (
+  wallet: Wallet,
+  addresses: SdkAddresses
+) => {
+  const {
+    clearingHouse,
+    viewer,
+    send,
+    getMinAmountAfterWithdrawal
+  } = await connectProtocol(wallet, addresses);
+
+  const getLpReport = async (idx: bigint): Promise<LpReport> => {
+    const { liquidityBalance } = await viewer.getLpPosition(
+      idx,
+      wallet.address
+    );
+    return {
+      liquidityBalance,
+      tradingFees: await viewer.getLpTradingFees(idx, wallet.address),
+      fundingPayments: await viewer.getLpFundingPayments(idx, wallet.address),
+      estimatedPnl: await viewer.getLpEstimatedPnl(idx, wallet.address)
+    };
+  };
+
+  /**
+   * Quotes providing `quoteAmount` of vQuote, along with the vBase amount matching it at the index price
+   */
+  const quoteProvideLiquidity = async (
+    idx: bigint,
+    quoteAmount: bigint,
+    options?: TradeOptions
+  ): Promise<ProvideLiquidityQuote> => {
+    const indexPrice: bigint = await viewer.indexPrice(idx);
+    const amounts: [bigint, bigint] = [
+      quoteAmount,
+      (quoteAmount * WAD) / indexPrice
+    ];
+    const expectedLpTokenAmount: bigint = await withProtocolErrors(() =>
+      viewer.getExpectedLpTokenAmount(idx, amounts)
+    );
+    return {
+      amounts,
+      expectedLpTokenAmount,
+      minLpAmount: applySlippage(expectedLpTokenAmount, options?.slippage)
+    };
+  };
+
+  /**
+   * Quotes removing a share of the liquidity of the wallet. `reductionRatio` is the share to remove, 1e18 for all of it
+   */
+  const quoteRemoveLiquidity = async (
+    idx: bigint,
+    reductionRatio = WAD,
+    options?: TradeOptions
+  ): Promise<RemoveLiquidityQuote> => {
+    if (reductionRatio <= 0n || reductionRatio > WAD)
+      throw `⛔️ Reduction ratio must be within (0, 1e18], got ${reductionRatio}`;
+
+    const report = await getLpReport(idx);
+    if (report.liquidityBalance === 0n)
+      throw `⛔️ No liquidity provided on market ${idx}`;
+    const liquidityAmountToRemove =
+      (report.liquidityBalance * reductionRatio) / WAD;
+
+    const expectedVTokenAmounts: [bigint, bigint] = [
+      ...(await viewer.getExpectedVirtualTokenAmountsFromLpTokenAmount(
+        idx,
+        wallet.address,
+        liquidityAmountToRemove
+      ))
+    ] as [bigint, bigint];
+    const minVTokenAmounts = expectedVTokenAmounts.map(amount =>
+      applySlippage(amount, options?.slippage)
+    ) as [bigint, bigint];
+
+    // getLpProposedAmount simulates the withdrawal to search for the amount closing the resulting
+    // position, so it isn't a view function and has to be static called
+    const proposedAmount: bigint = await withProtocolErrors(() =>
+      viewer.getLpProposedAmount.staticCall(
+        idx,
+        wallet.address,
+        reductionRatio,
+        PROPOSED_AMOUNT_ITERATIONS,
+        minVTokenAmounts,
+        0
+      )
+    );
+    const { positionSize } = await viewer.getLpPositionAfterWithdrawal(
+      idx,
+      wallet.address
+    );
+    const minAmount = await getMinAmountAfterWithdrawal(
+      idx,
+      wallet.address,
+      liquidityAmountToRemove,
+      minVTokenAmounts,
+      positionSize > 0n ? Side.Short : Side.Long,
+      proposedAmount,
+      options?.slippage
+    );
+
+    return {
+      reductionRatio,
+      liquidityAmountToRemove,
+      expectedVTokenAmounts,
+      minVTokenAmounts,
+      proposedAmount,
+      minAmount,
+      report
+    };
+  };
+
+  const confirm = async <Quote>(
+    quote: Quote,
+    options?: LiquidityOptions<Quote>
+  ) => {
+    if (options?.confirm && !(await options.confirm(quote)))
+      throw "⛔️ Liquidity operation cancelled";
+  };
+
+  const provideLiquidity = async (
+    idx: bigint,
+    quoteAmount: bigint,
+    options?: LiquidityOptions<ProvideLiquidityQuote>
+  ): Promise<LiquidityResult<ProvideLiquidityQuote>> => {
+    const quote = await quoteProvideLiquidity(idx, quoteAmount, options);
+    await confirm(quote, options);
+
+    const { receipt, events } = await send(
+      () =>
+        clearingHouse.provideLiquidity(idx, quote.amounts, quote.minLpAmount),
+      "LiquidityProvided"
+    );
+    return { quote, receipt, events };
+  };
+
+  const removeLiquidity = async (
+    idx: bigint,
+    reductionRatio = WAD,
+    options?: LiquidityOptions<RemoveLiquidityQuote>
+  ): Promise<LiquidityResult<RemoveLiquidityQuote>> => {
+    const quote = await quoteRemoveLiquidity(idx, reductionRatio, options);
+    await confirm(quote, options);
+
+    const { receipt, events } = await send(
+      () =>
+        clearingHouse.removeLiquidity(
+          idx,
+          quote.liquidityAmountToRemove,
+          quote.minVTokenAmounts,
+          quote.proposedAmount,
+          quote.minAmount
+        ),
+      "LiquidityRemoved"
+    );
+    return { quote, receipt, events };
+  };
+
+  return {
+    clearingHouse,
+    viewer,
+    getLpReport,
+    quoteProvideLiquidity,
+    quoteRemoveLiquidity,
+    provideLiquidity,
+    removeLiquidity
+  };
+};
+
+export type LiquiditySdk = Awaited<ReturnType<typeof createLiquiditySdk>>;
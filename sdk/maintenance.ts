@@ -0,0 +1,301 @@
+import { Contract, TransactionReceipt } from "ethers";
+import { Wallet } from "zksync-ethers";
+
+import { getInterface } from "./abi";
+import { isProtocolError, withProtocolErrors } from "./errors";
+import {
+  connectProtocol,
+  PROPOSED_AMOUNT_ITERATIONS,
+  SdkAddresses,
+  Side,
+  TradeOptions
+} from "./common";
+
+const WAD = 10n ** 18n;
+
+export type MaintenanceKeeperOptions = TradeOptions & {
+  /**
+   * Only log the transactions which would be submitted
+   */
+  dryRun?: boolean;
+  /**
+   * Absolute base dust from which it gets sold, in vBase (18 decimals). Defaults to 0, i.e. any dust
+   */
+  dustThreshold?: bigint;
+  /**
+   * Milliseconds between two checks of the markets. Defaults to 60s
+   */
+  pollInterval?: number;
+  log?: (message: string) => void;
+};
+
+export type MarketMaintenanceStatus = {
+  idx: bigint;
+  perpetual: string;
+  paused: boolean;
+  /**
+   * Position of the ClearingHouse in the market, in vBase. 18 decimals
+   */
+  baseDust: bigint;
+  twapFrequency: bigint;
+  /**
+   * Seconds since the TWAPs were last updated, a new funding period starts once it reaches `twapFrequency`
+   */
+  secondsSinceTwapUpdate: bigint;
+  oracleTwap: bigint;
+  marketTwap: bigint;
+};
+
+export type FundingRateUpdate = {
+  perpetual: string;
+  cumulativeFundingRate: bigint;
+  cumulativeFundingPerLpToken: bigint;
+  fundingRate: bigint;
+};
+
+export type DustSale = {
+  idx: bigint;
+  profit: bigint;
+  tradingFeesPayed: bigint;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const abs = (value: bigint) => (value < 0n ? -value : value);
+
+/**
+ * Creates a keeper rolling the funding periods of the markets over through `updateGlobalState`, and selling
+ * the base dust accumulated by the ClearingHouse through `settleDust`. Selling dust requires the EMERGENCY_ADMIN
+ * role, without it the keeper only logs the calls to make
+ */
+export const createMaintenanceKeeper = async (
+  wallet: Wallet,
+  addresses: SdkAddresses,
+  options: MaintenanceKeeperOptions = {}
+) => {
+  const { clearingHouse, viewer, getMinAmount } = await connectProtocol(
+    wallet,
+    addresses
+  );
+  const provider = wallet.provider;
+  const log = options.log ?? console.log;
+  const clearingHouseAddress = await clearingHouse.getAddress();
+  const perpetualInterface = getInterface("Perpetual");
+
+  const getPerpetual = async (idx: bigint) =>
+    new Contract(
+      await clearingHouse.perpetuals(idx),
+      perpetualInterface,
+      provider
+    );
+
+  const getMarketStatus = async (
+    idx: bigint,
+    timestamp: bigint
+  ): Promise<MarketMaintenanceStatus> => {
+    const perpetual = await getPerpetual(idx);
+    const { timeOfLastTwapUpdate } = await viewer.getGlobalPosition(idx);
+    return {
+      idx,
+      perpetual: await perpetual.getAddress(),
+      paused: await perpetual.paused(),
+      baseDust: await viewer.getBaseDust(idx),
+      twapFrequency: await perpetual.twapFrequency(),
+      secondsSinceTwapUpdate: timestamp - BigInt(timeOfLastTwapUpdate),
+      oracleTwap: await perpetual.oracleTwap(),
+      marketTwap: await perpetual.marketTwap()
+    };
+  };
+
+  /**
+   * Reads the dust and funding period of every market, at the timestamp of the latest block
+   */
+  const getStatus = async () => {
+    const { timestamp } = (await provider.getBlock("latest"))!;
+    const numMarkets: bigint = await clearingHouse.getNumMarkets();
+
+    const markets: MarketMaintenanceStatus[] = [];
+    for (let i = 0n; i < numMarkets; i++) {
+      markets.push(
+        await getMarketStatus(await clearingHouse.id(i), BigInt(timestamp))
+      );
+    }
+    return markets;
+  };
+
+  const logStatus = (status: MarketMaintenanceStatus) =>
+    log(
+      `Market ${status.idx}${status.paused ? " (paused)" : ""}: base dust ${
+        status.baseDust
+      }, TWAPs updated ${status.secondsSinceTwapUpdate}s ago (every ${
+        status.twapFrequency
+      }s), oracle TWAP ${status.oracleTwap}, market TWAP ${status.marketTwap}`
+    );
+
+  const parseFundingRateUpdates = (receipt: TransactionReceipt) =>
+    receipt.logs.flatMap(eventLog => {
+      const event = perpetualInterface.parseLog({
+        topics: [...eventLog.topics],
+        data: eventLog.data
+      });
+      if (event?.name !== "FundingRateUpdated") return [];
+      return [
+        {
+          perpetual: eventLog.address,
+          cumulativeFundingRate: event.args.cumulativeFundingRate,
+          cumulativeFundingPerLpToken: event.args.cumulativeFundingPerLpToken,
+          fundingRate: event.args.fundingRate
+        } as FundingRateUpdate
+      ];
+    });
+
+  /**
+   * Updates the TWAPs and funding rates of every unpaused market, which the ClearingHouse does in a single call
+   */
+  const updateGlobalState = async () => {
+    if (options.dryRun) {
+      log("[dry run] Would call ClearingHouse.updateGlobalState");
+      return [];
+    }
+
+    const receipt: TransactionReceipt = await withProtocolErrors(async () =>
+      (await clearingHouse.updateGlobalState()).wait()
+    );
+    const updates = parseFundingRateUpdates(receipt);
+    log(`✅ Updated the global state in ${receipt.hash}`);
+    for (const update of updates)
+      log(
+        `  FundingRateUpdated on ${update.perpetual}: funding rate ${update.fundingRate}, cumulative ${update.cumulativeFundingRate}, per LP token ${update.cumulativeFundingPerLpToken}`
+      );
+    return updates;
+  };
+
+  /**
+   * Sells the whole base dust of a market, sending the proceeds to the Insurance
+   */
+  const settleDust = async (
+    status: MarketMaintenanceStatus
+  ): Promise<DustSale | undefined> => {
+    const { idx, baseDust } = status;
+    const direction = baseDust > 0n ? Side.Short : Side.Long;
+    const proposedAmount: bigint = await withProtocolErrors(() =>
+      viewer.getTraderProposedAmount(
+        idx,
+        clearingHouseAddress,
+        WAD,
+        PROPOSED_AMOUNT_ITERATIONS,
+        0
+      )
+    );
+    const minAmount = await getMinAmount(
+      idx,
+      direction,
+      proposedAmount,
+      options.slippage
+    );
+    const args = [idx, proposedAmount, minAmount, direction] as const;
+
+    const emergencyAdmin: string = await clearingHouse.EMERGENCY_ADMIN();
+    if (!(await clearingHouse.hasRole(emergencyAdmin, wallet.address))) {
+      log(
+        `⚠️ ${
+          wallet.address
+        } isn't EMERGENCY_ADMIN, the dust of market ${idx} has to be sold by calling ${clearingHouseAddress} with ${clearingHouse.interface.encodeFunctionData(
+          "settleDust",
+          args
+        )}`
+      );
+      return;
+    }
+
+    try {
+      // Sales at a loss revert with ClearingHouse_NegativeDustProceeds
+      await withProtocolErrors(() =>
+        clearingHouse.settleDust.staticCall(...args)
+      );
+    } catch (error) {
+      log(
+        `⚠️ Can't sell the dust of market ${idx}: ${
+          isProtocolError(error) ? error.message : error
+        }`
+      );
+      return;
+    }
+    if (options.dryRun) {
+      log(`[dry run] Would sell the dust of market ${idx} (${baseDust} vBase)`);
+      return;
+    }
+
+    const receipt: TransactionReceipt = await withProtocolErrors(async () =>
+      (await clearingHouse.settleDust(...args)).wait()
+    );
+    for (const eventLog of receipt.logs) {
+      const event = clearingHouse.interface.parseLog({
+        topics: [...eventLog.topics],
+        data: eventLog.data
+      });
+      if (event?.name !== "DustSold") continue;
+
+      log(
+        `✅ DustSold on market ${idx} in ${receipt.hash}: profit ${event.args.profit}, trading fees ${event.args.tradingFeesPayed}`
+      );
+      return {
+        idx,
+        profit: event.args.profit,
+        tradingFeesPayed: event.args.tradingFeesPayed
+      };
+    }
+  };
+
+  /**
+   * Rolls the funding period over if any market is due, then sells the dust crossing the threshold
+   */
+  const maintain = async () => {
+    const markets = await getStatus();
+    markets.forEach(logStatus);
+
+    const isPeriodOver = markets.some(
+      market =>
+        !market.paused && market.secondsSinceTwapUpdate >= market.twapFrequency
+    );
+    const fundingRateUpdates = isPeriodOver ? await updateGlobalState() : [];
+
+    const dustSales: DustSale[] = [];
+    for (const market of markets) {
+      if (
+        market.paused ||
+        market.baseDust === 0n ||
+        abs(market.baseDust) < (options.dustThreshold ?? 0n)
+      )
+        continue;
+
+      const sale = await settleDust(market);
+      if (sale) dustSales.push(sale);
+    }
+    return { markets, fundingRateUpdates, dustSales };
+  };
+
+  /**
+   * Maintains the markets every `pollInterval` until `shouldStop` returns true
+   */
+  const run = async (shouldStop: () => boolean = () => false) => {
+    while (!shouldStop()) {
+      await maintain();
+      await sleep(options.pollInterval ?? 60000);
+    }
+  };
+
+  return {
+    clearingHouse,
+    viewer,
+    getStatus,
+    updateGlobalState,
+    settleDust,
+    maintain,
+    run
+  };
+};
+
+export type MaintenanceKeeper = Awaited<
+  ReturnType<typeof createMaintenanceKeeper>
+>;
@@ -0,0 +1,376 @@
+import { Contract, getAddress, Interface, Provider, Result } from "ethers";
+
+import { getInterface } from "./abi";
+import { findDeploymentBlock, getLogsInRange } from "./events";
+import { isProtocolError, withProtocolErrors } from "./errors";
+
+const WAD = 10n ** 18n;
+
+export type OracleMonitorOptions = {
+  /**
+   * First block to read the assets set in the Oracle from. Defaults to the deployment block of the Oracle (needs an archive node)
+   */
+  fromBlock?: number;
+  /**
+   * Seconds ahead of the heartbeat from which a feed is reported as about to go stale. Defaults to a tenth of the heartbeat
+   */
+  warningWindow?: number;
+  /**
+   * URL the alerts are posted to as JSON, on top of being logged
+   */
+  webhookUrl?: string;
+  /**
+   * Milliseconds between two checks of the feeds. Defaults to 60s
+   */
+  pollInterval?: number;
+  log?: (message: string) => void;
+};
+
+export type OracleMonitorAddresses = {
+  ORACLE: string;
+  VAULT: string;
+};
+
+export type AlertLevel = "ok" | "warning" | "critical";
+
+export type AssetFeedStatus = {
+  asset: string;
+  symbol: string;
+  aggregator: string;
+  heartBeat: bigint;
+  isVaultAsset: boolean;
+  /**
+   * Price returned instead of the aggregator answer when not 0. 18 decimals
+   */
+  fixedPrice: bigint;
+  answer: bigint;
+  updatedAt: bigint;
+  /**
+   * Seconds left before the Oracle rejects the answer as stale, negative once it does
+   */
+  secondsToStale: bigint;
+  /**
+   * Error `Oracle.getPrice` reverts with, undefined when the price can be read
+   */
+  error?: string;
+  level: AlertLevel;
+};
+
+export type SequencerStatus = {
+  feed: string;
+  isUp: boolean;
+  /**
+   * Time the sequencer came back up, or went down
+   */
+  statusChangedAt: bigint;
+  gracePeriod: bigint;
+  /**
+   * Seconds left before prices can be read again after the sequencer came back up, 0 once they can
+   */
+  gracePeriodLeft: bigint;
+  level: AlertLevel;
+};
+
+export type OracleAlert = {
+  level: Exclude<AlertLevel, "ok">;
+  /**
+   * "sequencer" or the symbol of the asset
+   */
+  subject: string;
+  message: string;
+};
+
+export type OracleReport = {
+  block: number;
+  timestamp: bigint;
+  sequencer: SequencerStatus;
+  assets: AssetFeedStatus[];
+  alerts: OracleAlert[];
+};
+
+const ERC20_SYMBOL = new Interface(["function symbol() view returns (string)"]);
+
+const AGGREGATOR_ABI = [
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)"
+];
+
+// Covered by the sequencer alert, rather than raised for every asset
+const SEQUENCER_ERRORS = ["Oracle_SequencerDown", "Oracle_GracePeriodNotOver"];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Creates a monitor of the price feeds read by the Oracle, alerting ahead of a feed going stale and whenever the
+ * sequencer is down or within its grace period. Assets are the ones set through `setOracle` and the collaterals of
+ * the Vault
+ */
+export const createOracleMonitor = async (
+  provider: Provider,
+  addresses: OracleMonitorAddresses,
+  options: OracleMonitorOptions = {}
+) => {
+  const log = options.log ?? console.log;
+  const oracle = new Contract(
+    addresses.ORACLE,
+    getInterface("Oracle"),
+    provider
+  );
+  const vault = new Contract(addresses.VAULT, getInterface("Vault"), provider);
+
+  const assets = new Set<string>();
+  const symbols = new Map<string, string>();
+  let nextBlock =
+    options.fromBlock ??
+    (await findDeploymentBlock(provider, addresses.ORACLE));
+
+  /**
+   * Reads the assets set in the Oracle since the last sync, and the collaterals of the Vault. `OracleUpdated` holds
+   * the underlying asset of ERC-4626 vaults rather than the vault itself, which the collaterals make up for
+   */
+  const syncAssets = async () => {
+    const latestBlock = await provider.getBlockNumber();
+    if (latestBlock >= nextBlock) {
+      const logs = await getLogsInRange(
+        provider,
+        {
+          address: addresses.ORACLE,
+          topics: [oracle.interface.getEvent("OracleUpdated")!.topicHash]
+        },
+        nextBlock,
+        latestBlock
+      );
+      for (const log of logs)
+        assets.add(
+          getAddress(
+            oracle.interface.parseLog({
+              topics: [...log.topics],
+              data: log.data
+            })!.args.asset
+          )
+        );
+      nextBlock = latestBlock + 1;
+    }
+
+    const numCollaterals: bigint = await vault.getNumberOfCollaterals();
+    for (let i = 0n; i < numCollaterals; i++) {
+      const collateral: Result = await vault.getWhiteListedCollateral(i);
+      assets.add(getAddress(collateral.asset));
+    }
+    return assets;
+  };
+
+  const getSymbol = async (asset: string) => {
+    if (!symbols.has(asset)) {
+      try {
+        symbols.set(
+          asset,
+          await new Contract(asset, ERC20_SYMBOL, provider).symbol()
+        );
+      } catch {
+        symbols.set(asset, asset);
+      }
+    }
+    return symbols.get(asset)!;
+  };
+
+  /**
+   * Error `Oracle.getPrice` reverts with for the asset, undefined when the price can be read
+   */
+  const getPriceError = async (asset: string) => {
+    try {
+      await withProtocolErrors(() => oracle.getPrice(asset, WAD));
+    } catch (error) {
+      return isProtocolError(error) ? error.errorName : `${error}`;
+    }
+  };
+
+  const getSequencerStatus = async (
+    timestamp: bigint
+  ): Promise<SequencerStatus> => {
+    const feed: string = await oracle.sequencerUptimeFeed();
+    const gracePeriod: bigint = await oracle.gracePeriod();
+    // The Oracle reads the time the status changed from `startedAt`
+    const { answer, startedAt } = await new Contract(
+      feed,
+      AGGREGATOR_ABI,
+      provider
+    ).latestRoundData();
+
+    const isUp = answer === 0n;
+    const secondsSinceUp = timestamp - startedAt;
+    const gracePeriodLeft =
+      isUp && secondsSinceUp <= gracePeriod
+        ? gracePeriod - secondsSinceUp + 1n
+        : 0n;
+    return {
+      feed,
+      isUp,
+      statusChangedAt: startedAt,
+      gracePeriod,
+      gracePeriodLeft,
+      level: !isUp || gracePeriodLeft > 0n ? "critical" : "ok"
+    };
+  };
+
+  const getAssetStatus = async (
+    asset: string,
+    timestamp: bigint
+  ): Promise<AssetFeedStatus | undefined> => {
+    const {
+      aggregator,
+      heartBeat,
+      isVaultAsset,
+      fixedPrice
+    } = await oracle.assetToOracles(asset);
+    // Underlying assets of ERC-4626 vaults have no oracle of their own
+    if (BigInt(aggregator) === 0n) return;
+
+    let answer = 0n;
+    let updatedAt = 0n;
+    try {
+      ({ answer, updatedAt } = await new Contract(
+        aggregator,
+        AGGREGATOR_ABI,
+        provider
+      ).latestRoundData());
+    } catch {
+      // Unreadable feeds make `getPrice` revert unless the price is fixed
+    }
+
+    const secondsToStale = updatedAt + heartBeat - timestamp;
+    const warningWindow = BigInt(
+      options.warningWindow ?? Number(heartBeat / 10n)
+    );
+    const error = await getPriceError(asset);
+    const level: AlertLevel =
+      error !== undefined && !SEQUENCER_ERRORS.includes(error)
+        ? "critical"
+        : fixedPrice === 0n && secondsToStale <= warningWindow
+        ? "warning"
+        : "ok";
+    return {
+      asset,
+      symbol: await getSymbol(asset),
+      aggregator,
+      heartBeat,
+      isVaultAsset,
+      fixedPrice,
+      answer,
+      updatedAt,
+      secondsToStale,
+      error,
+      level
+    };
+  };
+
+  const getAlerts = (
+    sequencer: SequencerStatus,
+    statuses: AssetFeedStatus[]
+  ) => {
+    const alerts: OracleAlert[] = [];
+    if (!sequencer.isUp)
+      alerts.push({
+        level: "critical",
+        subject: "sequencer",
+        message: `sequencer down since ${sequencer.statusChangedAt}`
+      });
+    else if (sequencer.gracePeriodLeft > 0n)
+      alerts.push({
+        level: "critical",
+        subject: "sequencer",
+        message: `sequencer back up, prices can't be read for another ${sequencer.gracePeriodLeft}s`
+      });
+
+    for (const status of statuses) {
+      if (status.level === "ok") continue;
+
+      const feed = `${status.symbol} feed ${status.aggregator}`;
+      alerts.push({
+        level: status.level,
+        subject: status.symbol,
+        message:
+          status.level === "warning"
+            ? `${feed} goes stale in ${status.secondsToStale}s (heartbeat ${status.heartBeat}s)`
+            : `${feed} can't be read by the Oracle: ${status.error}`
+      });
+    }
+    return alerts;
+  };
+
+  /**
+   * Sends the alerts to the webhook, if any. Failures are logged rather than thrown so that monitoring goes on
+   */
+  const notify = async (alerts: OracleAlert[]) => {
+    if (!options.webhookUrl || alerts.length === 0) return;
+
+    try {
+      const response = await fetch(options.webhookUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          text: alerts.map(({ message }) => message).join("\n"),
+          alerts
+        })
+      });
+      if (!response.ok)
+        log(`⚠️ Webhook answered ${response.status} ${response.statusText}`);
+    } catch (error) {
+      log(`⚠️ Couldn't post the alerts to the webhook: ${error}`);
+    }
+  };
+
+  /**
+   * Reads the sequencer status and every feed at the timestamp of the latest block, the one the Oracle checks against
+   */
+  const check = async (): Promise<OracleReport> => {
+    await syncAssets();
+    const { number, timestamp } = (await provider.getBlock("latest"))!;
+
+    const sequencer = await getSequencerStatus(BigInt(timestamp));
+    const statuses: AssetFeedStatus[] = [];
+    for (const asset of assets) {
+      const status = await getAssetStatus(asset, BigInt(timestamp));
+      if (status) statuses.push(status);
+    }
+
+    const alerts = getAlerts(sequencer, statuses);
+    for (const alert of alerts)
+      log(`${alert.level === "critical" ? "⛔️" : "⚠️"} ${alert.message}`);
+    return {
+      block: number,
+      timestamp: BigInt(timestamp),
+      sequencer,
+      assets: statuses,
+      alerts
+    };
+  };
+
+  /**
+   * Checks the feeds every `pollInterval` until `shouldStop` returns true. Only the alerts which weren't raised by
+   * the previous check are sent to the webhook
+   */
+  const run = async (shouldStop: () => boolean = () => false) => {
+    let raised = new Map<string, string>();
+    while (!shouldStop()) {
+      const { assets: statuses, alerts } = await check();
+      log(
+        `Checked ${statuses.length} feed(s) and the sequencer: ${alerts.length} alert(s)`
+      );
+
+      await notify(
+        alerts.filter(({ subject, level }) => raised.get(subject) !== level)
+      );
+      for (const subject of raised.keys()) {
+        if (!alerts.some(alert => alert.subject === subject))
+          log(`✅ ${subject} is back to normal`);
+      }
+      raised = new Map(alerts.map(({ subject, level }) => [subject, level]));
+
+      await sleep(options.pollInterval ?? 60000);
+    }
+  };
+
+  return { oracle, syncAssets, check, notify, run };
+};
+
+export type OracleMonitor = Awaited<ReturnType<typeof createOracleMonitor>>;
@@ -0,0 +1,275 @@
+import { Contract, Signature, TransactionReceipt, getAddress } from "ethers";
+import { Wallet } from "zksync-ethers";
+
+import { getInterface } from "./abi";
+import { withProtocolErrors } from "./errors";
+
+export type ReserveSdkAddresses = {
+  UA: string;
+  UA_HELPER: string;
+  CLEARING_HOUSE: string;
+};
+
+export type ReserveToken = {
+  idx: bigint;
+  asset: string;
+  symbol: string;
+  decimals: bigint;
+  /**
+   * UA minted against the token, 18 decimals
+   */
+  currentReserves: bigint;
+  /**
+   * Maximum UA that can be minted against the token, 18 decimals
+   */
+  mintCap: bigint;
+};
+
+export type PermitSignature = {
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+};
+
+export type ReserveDepositOptions = {
+  /**
+   * Approve the UAHelper through an EIP-2612 permit signed locally, rather than an `approve` transaction
+   */
+  permit?: boolean;
+  /**
+   * Seconds the permit signature remains valid for. Defaults to 1h
+   */
+  permitValidity?: number;
+};
+
+export type ReserveOperationResult = {
+  receipt: TransactionReceipt;
+  /**
+   * 18 decimals
+   */
+  uaAmount: bigint;
+  /**
+   * In the decimals of the reserve token
+   */
+  tokenAmount: bigint;
+};
+
+const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)"
+];
+
+const ERC20_PERMIT_ABI = [
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function nonces(address owner) view returns (uint256)"
+];
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" }
+  ]
+};
+
+// Same conversions as LibReserve
+const tokenToWad = (decimals: bigint, amount: bigint) =>
+  decimals <= 18n
+    ? amount * 10n ** (18n - decimals)
+    : amount / 10n ** (decimals - 18n);
+
+const wadToToken = (decimals: bigint, amount: bigint) =>
+  decimals <= 18n
+    ? amount / 10n ** (18n - decimals)
+    : amount * 10n ** (decimals - 18n);
+
+/**
+ * Creates a client of the UA reserve tokens, minting and redeeming UA held in the Vault through the UAHelper
+ */
+export const createReserveSdk = async (
+  wallet: Wallet,
+  addresses: ReserveSdkAddresses
+) => {
+  const ua = new Contract(addresses.UA, getInterface("UA"), wallet);
+  const uaHelper = new Contract(
+    addresses.UA_HELPER,
+    getInterface("UAHelper"),
+    wallet
+  );
+  const clearingHouse = new Contract(
+    addresses.CLEARING_HOUSE,
+    getInterface("ClearingHouse"),
+    wallet
+  );
+  const vault = new Contract(
+    await clearingHouse.vault(),
+    getInterface("Vault"),
+    wallet
+  );
+
+  /**
+   * Lists every reserve token of UA, with its mint cap and the UA minted against it
+   */
+  const getReserveTokens = async () => {
+    const numReserveTokens: bigint = await ua.getNumReserveTokens();
+    const reserveTokens: ReserveToken[] = [];
+    for (let idx = 0n; idx < numReserveTokens; idx++) {
+      const { asset, currentReserves, mintCap } = await ua.getReserveToken(idx);
+      const token = new Contract(asset, ERC20_ABI, wallet);
+      reserveTokens.push({
+        idx,
+        asset,
+        symbol: await token.symbol(),
+        decimals: await token.decimals(),
+        currentReserves,
+        mintCap
+      });
+    }
+    return reserveTokens;
+  };
+
+  const getReserveToken = async (token: string) => {
+    const reserveToken = (await getReserveTokens()).find(
+      ({ asset }) => getAddress(asset) === getAddress(token)
+    );
+    if (!reserveToken) throw `⛔️ ${token} isn't a reserve token of UA!`;
+    return reserveToken;
+  };
+
+  /**
+   * Signs an EIP-2612 permit letting the UAHelper pull `amount` of `token` from the wallet
+   */
+  const signPermit = async (
+    token: string,
+    amount: bigint,
+    deadline: bigint
+  ): Promise<PermitSignature> => {
+    const permitToken = new Contract(token, ERC20_PERMIT_ABI, wallet);
+    let nonce: bigint;
+    try {
+      nonce = await permitToken.nonces(wallet.address);
+    } catch {
+      throw `⛔️ ${token} doesn't support EIP-2612 permits, approve it with a transaction instead!`;
+    }
+    // OpenZeppelin's ERC20Permit signs with version "1" and doesn't always expose it
+    const version: string = await permitToken.version().catch(() => "1");
+
+    const signature = Signature.from(
+      await wallet.signTypedData(
+        {
+          name: await permitToken.name(),
+          version,
+          chainId: (await wallet.provider.getNetwork()).chainId,
+          verifyingContract: token
+        },
+        PERMIT_TYPES,
+        {
+          owner: wallet.address,
+          spender: addresses.UA_HELPER,
+          value: amount,
+          nonce,
+          deadline
+        }
+      )
+    );
+    return { deadline, v: signature.v, r: signature.r, s: signature.s };
+  };
+
+  /**
+   * Mints UA with `amount` of a reserve token (in its own decimals), and deposits it in the Vault
+   */
+  const depositReserveToken = async (
+    token: string,
+    amount: bigint,
+    options: ReserveDepositOptions = {}
+  ): Promise<ReserveOperationResult> => {
+    const reserveToken = await getReserveToken(token);
+    const uaAmount = tokenToWad(reserveToken.decimals, amount);
+    if (reserveToken.currentReserves + uaAmount > reserveToken.mintCap)
+      throw `⛔️ Minting ${uaAmount} UA would exceed the ${
+        reserveToken.symbol
+      } mint cap, only ${reserveToken.mintCap -
+        reserveToken.currentReserves} UA can still be minted!`;
+
+    let send: () => Promise<any>;
+    if (options.permit) {
+      const { timestamp } = (await wallet.provider.getBlock("latest"))!;
+      const { deadline, v, r, s } = await signPermit(
+        token,
+        amount,
+        BigInt(timestamp + (options.permitValidity ?? 3600))
+      );
+      send = () =>
+        uaHelper[
+          "depositReserveToken(address,uint256,uint256,uint8,bytes32,bytes32)"
+        ](token, amount, deadline, v, r, s);
+    } else {
+      const erc20 = new Contract(token, ERC20_ABI, wallet);
+      if ((await erc20.allowance(wallet.address, addresses.UA_HELPER)) < amount)
+        await (await erc20.approve(addresses.UA_HELPER, amount)).wait();
+      send = () =>
+        uaHelper["depositReserveToken(address,uint256)"](token, amount);
+    }
+
+    const receipt: TransactionReceipt = await withProtocolErrors(async () =>
+      (await send()).wait()
+    );
+    return { receipt, uaAmount, tokenAmount: amount };
+  };
+
+  /**
+   * Withdraws `uaAmount` of UA from the Vault and redeems it for a reserve token. The UAHelper is allowed to
+   * withdraw the UA through `ClearingHouse.increaseAllowance` first if needed
+   */
+  const withdrawReserveToken = async (
+    token: string,
+    uaAmount: bigint
+  ): Promise<ReserveOperationResult> => {
+    const reserveToken = await getReserveToken(token);
+    if (uaAmount > reserveToken.currentReserves)
+      throw `⛔️ Only ${reserveToken.currentReserves} UA were minted against ${reserveToken.symbol}, it can't redeem ${uaAmount} UA!`;
+
+    const allowance: bigint = await vault.getAllowance(
+      wallet.address,
+      addresses.UA_HELPER,
+      0
+    );
+    if (allowance < uaAmount)
+      await withProtocolErrors(async () =>
+        (
+          await clearingHouse.increaseAllowance(
+            addresses.UA_HELPER,
+            uaAmount - allowance,
+            addresses.UA
+          )
+        ).wait()
+      );
+
+    const receipt: TransactionReceipt = await withProtocolErrors(async () =>
+      (await uaHelper.withdrawReserveToken(token, uaAmount)).wait()
+    );
+    return {
+      receipt,
+      uaAmount,
+      tokenAmount: wadToToken(reserveToken.decimals, uaAmount)
+    };
+  };
+
+  return {
+    ua,
+    uaHelper,
+    getReserveTokens,
+    getReserveToken,
+    signPermit,
+    depositReserveToken,
+    withdrawReserveToken
+  };
+};
+
+export type ReserveSdk = Awaited<ReturnType<typeof createReserveSdk>>;
@@ -0,0 +1,253 @@
+import { LogDescription, TransactionReceipt } from "ethers";
+import { Wallet } from "zksync-ethers";
+
+import { withProtocolErrors } from "./errors";
+import {
+  connectProtocol,
+  PROPOSED_AMOUNT_ITERATIONS,
+  SdkAddresses,
+  Side,
+  TradeOptions
+} from "./common";
+
+export type ChangePositionEvent = {
+  idx: bigint;
+  user: string;
+  direction: Side;
+  addedOpenNotional: bigint;
+  addedPositionSize: bigint;
+  profit: bigint;
+  tradingFeesPayed: bigint;
+  insuranceFeesPayed: bigint;
+  isPositionIncreased: boolean;
+  isPositionClosed: boolean;
+};
+
+export type TradeResult = {
+  receipt: TransactionReceipt;
+  events: ChangePositionEvent[];
+};
+
+/**
+ * `Deposit` or `Withdraw` event of the Vault. `amount` is in the decimals of `asset`
+ */
+export type CollateralEvent = {
+  user: string;
+  asset: string;
+  amount: bigint;
+};
+
+export type CollateralResult = {
+  receipt: TransactionReceipt;
+  events: CollateralEvent[];
+};
+
+const toChangePositionEvent = (event: LogDescription): ChangePositionEvent => ({
+  idx: event.args.idx,
+  user: event.args.user,
+  direction: Number(event.args.direction) as Side,
+  addedOpenNotional: event.args.addedOpenNotional,
+  addedPositionSize: event.args.addedPositionSize,
+  profit: event.args.profit,
+  tradingFeesPayed: event.args.tradingFeesPayed,
+  insuranceFeesPayed: event.args.insuranceFeesPayed,
+  isPositionIncreased: event.args.isPositionIncreased,
+  isPositionClosed: event.args.isPositionClosed
+});
+
+const toCollateralEvent = (event: LogDescription): CollateralEvent => ({
+  user: event.args.user,
+  asset: event.args.asset,
+  amount: event.args.amount
+});
+
+/**
+ * Creates a client trading on the protocol with the given wallet
+ */
+export const createTraderSdk = async (
+  wallet: Wallet,
+  addresses: SdkAddresses
+) => {
+  const {
+    clearingHouse,
+    viewer,
+    vault,
+    send: sendTransaction,
+    ensureAllowance,
+    getMinAmount
+  } = await connectProtocol(wallet, addresses);
+
+  const send = async (
+    call: Parameters<typeof sendTransaction>[0]
+  ): Promise<TradeResult> => {
+    const { receipt, events } = await sendTransaction(call, "ChangePosition");
+    return { receipt, events: events.map(toChangePositionEvent) };
+  };
+
+  const getPosition = async (idx: bigint) =>
+    viewer.getTraderPosition(idx, wallet.address);
+
+  /**
+   * Amount to sell to close the whole position of the trader, and the direction to sell it in
+   */
+  const getClosingTrade = async (idx: bigint) => {
+    const { positionSize } = await getPosition(idx);
+    if (positionSize === 0n) throw `⛔️ No open position on market ${idx}`;
+
+    const proposedAmount: bigint = await withProtocolErrors(() =>
+      viewer.getTraderProposedAmount(
+        idx,
+        wallet.address,
+        10n ** 18n,
+        PROPOSED_AMOUNT_ITERATIONS,
+        0
+      )
+    );
+    return {
+      proposedAmount,
+      direction: positionSize > 0n ? Side.Short : Side.Long
+    };
+  };
+
+  /**
+   * Sells `amount` of vQuote (long) or vBase (short) on market `idx`
+   */
+  const changePosition = async (
+    idx: bigint,
+    amount: bigint,
+    direction: Side,
+    options?: TradeOptions
+  ) => {
+    const minAmount = await getMinAmount(
+      idx,
+      direction,
+      amount,
+      options?.slippage
+    );
+    return send(() =>
+      clearingHouse.changePosition(idx, amount, minAmount, direction)
+    );
+  };
+
+  /**
+   * Opens or extends a long position worth `quoteAmount` UA
+   */
+  const openLong = (idx: bigint, quoteAmount: bigint, options?: TradeOptions) =>
+    changePosition(idx, quoteAmount, Side.Long, options);
+
+  /**
+   * Opens or extends a short position of `baseAmount` vBase
+   */
+  const openShort = (idx: bigint, baseAmount: bigint, options?: TradeOptions) =>
+    changePosition(idx, baseAmount, Side.Short, options);
+
+  const closePosition = async (idx: bigint, options?: TradeOptions) => {
+    const { proposedAmount, direction } = await getClosingTrade(idx);
+    return changePosition(idx, proposedAmount, direction, options);
+  };
+
+  /**
+   * Closes the current position and opens one in the opposite direction, selling `openAmount` of vQuote
+   * (to go long) or vBase (to go short). The minimum amount of the opening trade is quoted against the
+   * pool before the position is closed, which the slippage tolerance must account for
+   */
+  const openReversePosition = async (
+    idx: bigint,
+    openAmount: bigint,
+    options?: TradeOptions
+  ) => {
+    const { proposedAmount, direction } = await getClosingTrade(idx);
+    const closeMinAmount = await getMinAmount(
+      idx,
+      direction,
+      proposedAmount,
+      options?.slippage
+    );
+    const openMinAmount = await getMinAmount(
+      idx,
+      direction,
+      openAmount,
+      options?.slippage
+    );
+    return send(() =>
+      clearingHouse.openReversePosition(
+        idx,
+        proposedAmount,
+        closeMinAmount,
+        openAmount,
+        openMinAmount,
+        direction
+      )
+    );
+  };
+
+  /**
+   * Deposits `collateralAmount` of `token` and opens or extends a position in a single transaction
+   */
+  const extendPositionWithCollateral = async (
+    idx: bigint,
+    collateralAmount: bigint,
+    token: string,
+    positionAmount: bigint,
+    direction: Side,
+    options?: TradeOptions
+  ) => {
+    const minAmount = await getMinAmount(
+      idx,
+      direction,
+      positionAmount,
+      options?.slippage
+    );
+    await ensureAllowance(token, collateralAmount);
+    return send(() =>
+      clearingHouse.extendPositionWithCollateral(
+        idx,
+        wallet.address,
+        collateralAmount,
+        token,
+        positionAmount,
+        direction,
+        minAmount
+      )
+    );
+  };
+
+  /**
+   * Sends a collateral transaction, which the Vault records rather than the ClearingHouse
+   */
+  const sendCollateral = async (
+    call: Parameters<typeof sendTransaction>[0],
+    eventName: "Deposit" | "Withdraw"
+  ): Promise<CollateralResult> => {
+    const { receipt, events } = await sendTransaction(call, eventName, vault);
+    return { receipt, events: events.map(toCollateralEvent) };
+  };
+
+  const deposit = async (amount: bigint, token: string) => {
+    await ensureAllowance(token, amount);
+    return sendCollateral(
+      () => clearingHouse.deposit(amount, token),
+      "Deposit"
+    );
+  };
+
+  const withdraw = (amount: bigint, token: string) =>
+    sendCollateral(() => clearingHouse.withdraw(amount, token), "Withdraw");
+
+  return {
+    clearingHouse,
+    viewer,
+    getMinAmount,
+    getPosition,
+    changePosition,
+    openLong,
+    openShort,
+    closePosition,
+    openReversePosition,
+    extendPositionWithCollateral,
+    deposit,
+    withdraw
+  };
+};
+
+export type TraderSdk = Awaited<ReturnType<typeof createTraderSdk>>;
@@ -0,0 +1,91 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { expect } from "chai";
+import { parseEther } from "ethers";
+
+import {
+  deployProtocolFixture,
+  fundAccount,
+  getRichWallet,
+  ProtocolFixture
+} from "./fixture";
+import { createEventIndexer } from "../../indexer/ingest";
+import { getAccountEvents } from "../../indexer/queries";
+import { createTraderSdk, TraderSdk } from "../../sdk/trader";
+
+describe("Event indexer", function() {
+  this.timeout(600000);
+
+  const trader = getRichWallet(1);
+  let fixture: ProtocolFixture;
+  let traderSdk: TraderSdk;
+  let idx: bigint;
+  let directory: string;
+
+  const createIndexer = (name: string) =>
+    createEventIndexer(fixture.provider, {
+      database: path.join(directory, name),
+      clearingHouse: fixture.addresses.CLEARING_HOUSE,
+      fromBlock: 0,
+      log: () => {}
+    });
+
+  before(async () => {
+    fixture = await deployProtocolFixture();
+    idx = await fixture.clearingHouse.id(0);
+    await fundAccount(fixture, trader, parseEther("1000"));
+    traderSdk = await createTraderSdk(trader, fixture.addresses);
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"));
+  });
+
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  it("rolls back the events of the blocks rewritten by a reorg", async () => {
+    const indexer = await createIndexer("reorg.sqlite");
+    await indexer.sync();
+    const snapshot = await fixture.provider.send("evm_snapshot", []);
+
+    const { receipt: trade } = await traderSdk.openLong(idx, parseEther("100"));
+    const { checkpoint } = await indexer.sync();
+    expect(
+      getAccountEvents(indexer.database, trader.address, {
+        names: ["ChangePosition"]
+      }).map(event => event.txHash)
+    ).to.deep.equal([trade.hash]);
+
+    // Rewrite the block of the trade with a withdrawal
+    await fixture.provider.send("evm_revert", [snapshot]);
+    const { receipt: withdrawal } = await traderSdk.withdraw(
+      parseEther("100"),
+      await fixture.ua.getAddress()
+    );
+    while ((await fixture.provider.getBlockNumber()) < checkpoint)
+      await fixture.provider.send("evm_mine", []);
+    await indexer.sync();
+
+    expect(
+      getAccountEvents(indexer.database, trader.address, {
+        names: ["ChangePosition"]
+      })
+    ).to.be.empty;
+    expect(
+      getAccountEvents(indexer.database, trader.address, {
+        names: ["Withdraw"]
+      }).map(event => event.txHash)
+    ).to.deep.equal([withdrawal.hash]);
+    indexer.close();
+  });
+
+  it("discovers the markets delisted since", async () => {
+    const perpetual = await fixture.perpetual.getAddress();
+    await (await fixture.clearingHouse.delistPerpetual(perpetual)).wait();
+
+    const indexer = await createIndexer("delisted.sqlite");
+    await indexer.sync();
+    expect(
+      indexer.database.prepare("SELECT idx, perpetual FROM markets").all()
+    ).to.deep.equal([{ idx: Number(idx), perpetual }]);
+    indexer.close();
+  });
+});
@@ -0,0 +1,81 @@
+import { Contract } from "ethers";
+import { Provider, Wallet } from "zksync-ethers";
+
+import {
+  deployContract,
+  getProvider,
+  LOCAL_RICH_WALLETS
+} from "../../deploy/utils";
+import { deployLocalProtocol, LocalProtocol } from "../../deploy/devnet";
+
+/**
+ * Tests update the `ethAggregator` to move the index price
+ */
+export type ProtocolFixture = LocalProtocol & {
+  provider: Provider;
+  deployer: Wallet;
+  addresses: {
+    CLEARING_HOUSE: string;
+    CLEARING_HOUSE_VIEWER: string;
+  };
+};
+
+export const getRichWallet = (index: number) =>
+  new Wallet(LOCAL_RICH_WALLETS[index].privateKey, getProvider());
+
+const send = async (tx: Promise<any>) => (await tx).wait();
+
+/**
+ * Deploys the protocol and an ETH market on a local node (`npx hardhat node-zksync`) like the devnet, with mock price
+ * feeds and the deployer holding every role
+ */
+export const deployProtocolFixture = async (): Promise<ProtocolFixture> => {
+  const deployer = getRichWallet(0);
+  const protocol = await deployLocalProtocol(deployer, {
+    deploy: (contract, args = [], { factoryDeps } = {}) =>
+      deployContract(contract, args, {
+        wallet: deployer,
+        silent: true,
+        noVerify: true,
+        factoryDeps
+      }),
+    run: async (_step, sendTx) => {
+      await send(sendTx());
+    }
+  });
+
+  return {
+    provider: deployer.provider,
+    deployer,
+    ...protocol,
+    addresses: {
+      CLEARING_HOUSE: await protocol.clearingHouse.getAddress(),
+      CLEARING_HOUSE_VIEWER: await protocol.viewer.getAddress()
+    }
+  };
+};
+
+/**
+ * Mints `amount` UA to the wallet out of freshly minted USDC, and deposits it in the vault
+ */
+export const fundAccount = async (
+  fixture: ProtocolFixture,
+  wallet: Wallet,
+  amount: bigint
+) => {
+  const usdcAmount = amount / 10n ** 12n;
+  const uaAddress = await fixture.ua.getAddress();
+  await send(fixture.usdc.mint(wallet.address, usdcAmount));
+
+  const usdc = fixture.usdc.connect(wallet) as Contract;
+  const ua = fixture.ua.connect(wallet) as Contract;
+  await send(usdc.approve(uaAddress, usdcAmount));
+  await send(ua.mintWithReserve(await usdc.getAddress(), usdcAmount));
+  await send(ua.approve(await fixture.vault.getAddress(), amount));
+  await send(
+    (fixture.clearingHouse.connect(wallet) as Contract).deposit(
+      amount,
+      uaAddress
+    )
+  );
+};
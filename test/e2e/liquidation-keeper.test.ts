@@ -0,0 +1,111 @@
+import { expect } from "chai";
+import { Contract, parseEther, parseUnits } from "ethers";
+
+import {
+  deployProtocolFixture,
+  fundAccount,
+  getRichWallet,
+  ProtocolFixture
+} from "./fixture";
+import { createLiquiditySdk } from "../../sdk/liquidity";
+import { createTraderSdk } from "../../sdk/trader";
+import {
+  createLiquidationKeeper,
+  LiquidationKeeperOptions
+} from "../../sdk/liquidator";
+
+describe("Liquidation keeper", function() {
+  this.timeout(600000);
+
+  const lp = getRichWallet(1);
+  const trader = getRichWallet(2);
+  const liquidator = getRichWallet(3);
+  let fixture: ProtocolFixture;
+  let idx: bigint;
+
+  const createKeeper = (options: LiquidationKeeperOptions = {}) =>
+    createLiquidationKeeper(liquidator, fixture.addresses, {
+      fromBlock: 0,
+      log: () => {},
+      ...options
+    });
+
+  before(async () => {
+    fixture = await deployProtocolFixture();
+    idx = await fixture.clearingHouse.id(0);
+
+    await fundAccount(fixture, lp, parseEther("500000"));
+    await fundAccount(fixture, trader, parseEther("1000"));
+    await fundAccount(fixture, liquidator, parseEther("1000"));
+
+    const liquiditySdk = await createLiquiditySdk(lp, fixture.addresses);
+    await liquiditySdk.provideLiquidity(idx, parseEther("200000"));
+
+    // ~15x leverage, just above the minimum margin at creation
+    const traderSdk = await createTraderSdk(trader, fixture.addresses);
+    await traderSdk.openLong(idx, parseEther("15000"));
+  });
+
+  it("tracks the accounts which traded or provided liquidity", async () => {
+    const keeper = await createKeeper();
+    const accounts = await keeper.syncAccounts();
+
+    expect([...accounts.keys()]).to.have.members([lp.address, trader.address]);
+    expect([...accounts.get(trader.address)!]).to.deep.equal([idx]);
+  });
+
+  it("leaves healthy accounts alone", async () => {
+    const keeper = await createKeeper();
+    const { liquidations, seizures } = await keeper.scan();
+
+    expect(liquidations).to.be.empty;
+    expect(seizures).to.be.empty;
+  });
+
+  describe("once the index price drops", () => {
+    before(async () => {
+      const tx = await (fixture.ethAggregator.connect(
+        fixture.deployer
+      ) as Contract).updateAnswer(parseUnits("1880", 8));
+      await tx.wait();
+    });
+
+    it("only reports the liquidation in dry-run mode", async () => {
+      const keeper = await createKeeper({ dryRun: true });
+      const { liquidations } = await keeper.scan();
+
+      expect(liquidations).to.have.length(1);
+      expect(liquidations[0].quote.account).to.equal(trader.address);
+      expect(liquidations[0].quote.isTrader).to.equal(true);
+      expect(liquidations[0].receipt).to.equal(undefined);
+      expect(await fixture.perpetual.isTraderPositionOpen(trader.address)).to.be
+        .true;
+    });
+
+    it("skips liquidations below the minimum reward", async () => {
+      const keeper = await createKeeper({ minReward: parseEther("1000") });
+      const { liquidations } = await keeper.scan();
+
+      expect(liquidations).to.be.empty;
+    });
+
+    it("liquidates the trader and collects the reward", async () => {
+      const balanceBefore: bigint = await fixture.vault.getBalance(
+        liquidator.address,
+        0
+      );
+
+      const keeper = await createKeeper();
+      const { liquidations } = await keeper.scan();
+
+      expect(liquidations).to.have.length(1);
+      expect(liquidations[0].receipt?.status).to.equal(1);
+      expect(liquidations[0].events[0].name).to.equal("LiquidationCall");
+      expect(await fixture.perpetual.isTraderPositionOpen(trader.address)).to.be
+        .false;
+      expect(await fixture.vault.getBalance(liquidator.address, 0)).to.equal(
+        balanceBefore + liquidations[0].quote.estimatedReward
+      );
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { expect } from "chai";
+import { Contract, parseEther, parseUnits } from "ethers";
+
+import { deployProtocolFixture, ProtocolFixture } from "./fixture";
+import { deployContract } from "../../deploy/utils";
+import {
+  createOracleMonitor,
+  OracleMonitorOptions
+} from "../../sdk/oracle-monitor";
+
+const HEARTBEAT = 3600n;
+const USDC_PRICE = parseUnits("1", 8);
+
+describe("Oracle monitor", function() {
+  this.timeout(600000);
+
+  let fixture: ProtocolFixture;
+  let usdcAggregator: Contract;
+  let sequencerUptimeFeed: Contract;
+  let gracePeriod: bigint;
+  let round = 1n;
+
+  const createMonitor = async (options: OracleMonitorOptions = {}) =>
+    createOracleMonitor(
+      fixture.provider,
+      {
+        ORACLE: await fixture.oracle.getAddress(),
+        VAULT: await fixture.vault.getAddress()
+      },
+      { fromBlock: 0, warningWindow: 600, log: () => {}, ...options }
+    );
+
+  const now = async () =>
+    BigInt((await fixture.provider.getBlock("latest"))!.timestamp);
+
+  // The Oracle reads the answer and `updatedAt` of price feeds, and the answer and `startedAt` of the sequencer feed
+  const setRound = async (
+    feed: Contract,
+    answer: bigint,
+    updatedAt: bigint,
+    startedAt: bigint
+  ) =>
+    (await feed.updateRoundData(round++, answer, updatedAt, startedAt)).wait();
+
+  before(async () => {
+    fixture = await deployProtocolFixture();
+    gracePeriod = await fixture.oracle.gracePeriod();
+
+    const deploy = (args: any[]) =>
+      deployContract("ChainlinkAggregatorMock", args, {
+        wallet: fixture.deployer,
+        silent: true,
+        noVerify: true
+      });
+    usdcAggregator = await deploy([8, USDC_PRICE]);
+    await (
+      await fixture.oracle.setOracle(
+        await fixture.usdc.getAddress(),
+        await usdcAggregator.getAddress(),
+        HEARTBEAT,
+        false
+      )
+    ).wait();
+
+    // Up since long before the grace period
+    sequencerUptimeFeed = await deploy([0, 0]);
+    await setRound(sequencerUptimeFeed, 0n, 1n, 1n);
+    await (
+      await fixture.oracle.setSequencerUptimeFeed(
+        await sequencerUptimeFeed.getAddress()
+      )
+    ).wait();
+  });
+
+  it("reads every asset set in the Oracle", async () => {
+    const monitor = await createMonitor();
+    const { sequencer, assets, alerts } = await monitor.check();
+
+    expect(assets.map(({ asset }) => asset)).to.have.members([
+      await fixture.ua.getAddress(),
+      await fixture.usdc.getAddress()
+    ]);
+    const ua = assets.find(({ symbol }) => symbol !== "USDC")!;
+    expect(ua.fixedPrice).to.equal(parseEther("1"));
+    const usdc = assets.find(({ symbol }) => symbol === "USDC")!;
+    expect(usdc.heartBeat).to.equal(HEARTBEAT);
+    expect(usdc.answer).to.equal(USDC_PRICE);
+    expect(sequencer.isUp).to.be.true;
+    expect(sequencer.gracePeriod).to.equal(gracePeriod);
+    expect(alerts).to.be.empty;
+  });
+
+  describe("price feeds", () => {
+    after(async () => {
+      await (await usdcAggregator.updateAnswer(USDC_PRICE)).wait();
+    });
+
+    it("warns ahead of a feed going stale", async () => {
+      const updatedAt = (await now()) - HEARTBEAT + 300n;
+      await setRound(usdcAggregator, USDC_PRICE, updatedAt, updatedAt);
+
+      const { assets, alerts } = await (await createMonitor()).check();
+      const usdc = assets.find(({ symbol }) => symbol === "USDC")!;
+
+      expect(usdc.level).to.equal("warning");
+      expect(usdc.error).to.equal(undefined);
+      expect(usdc.secondsToStale > 0n && usdc.secondsToStale <= 300n).to.be
+        .true;
+      expect(alerts).to.have.length(1);
+      expect(alerts[0]).to.include({ level: "warning", subject: "USDC" });
+    });
+
+    it("raises a critical alert once the Oracle rejects the feed", async () => {
+      const updatedAt = (await now()) - HEARTBEAT - 60n;
+      await setRound(usdcAggregator, USDC_PRICE, updatedAt, updatedAt);
+
+      const { assets, alerts } = await (await createMonitor()).check();
+      const usdc = assets.find(({ symbol }) => symbol === "USDC")!;
+
+      expect(usdc.level).to.equal("critical");
+      expect(usdc.error).to.equal("Oracle_DataNotFresh");
+      expect(usdc.secondsToStale < 0n).to.be.true;
+      expect(alerts).to.have.length(1);
+      expect(alerts[0]).to.include({ level: "critical", subject: "USDC" });
+    });
+  });
+
+  describe("sequencer", () => {
+    it("raises a single alert while the sequencer is down", async () => {
+      const timestamp = await now();
+      await setRound(sequencerUptimeFeed, 1n, timestamp, timestamp);
+
+      const { sequencer, assets, alerts } = await (
+        await createMonitor()
+      ).check();
+
+      expect(sequencer.isUp).to.be.false;
+      expect(sequencer.level).to.equal("critical");
+      for (const asset of assets) {
+        expect(asset.error).to.equal("Oracle_SequencerDown");
+        expect(asset.level).to.equal("ok");
+      }
+      expect(alerts).to.have.length(1);
+      expect(alerts[0]).to.include({ level: "critical", subject: "sequencer" });
+    });
+
+    it("raises an alert until the grace period is over", async () => {
+      const timestamp = await now();
+      await setRound(sequencerUptimeFeed, 0n, timestamp, timestamp);
+
+      const { sequencer, assets, alerts } = await (
+        await createMonitor()
+      ).check();
+
+      expect(sequencer.isUp).to.be.true;
+      expect(sequencer.gracePeriodLeft > 0n).to.be.true;
+      expect(sequencer.gracePeriodLeft <= gracePeriod + 1n).to.be.true;
+      for (const asset of assets)
+        expect(asset.error).to.equal("Oracle_GracePeriodNotOver");
+      expect(alerts).to.have.length(1);
+      expect(alerts[0]).to.include({ level: "critical", subject: "sequencer" });
+    });
+
+    it("clears the alert once prices can be read again", async () => {
+      const startedAt = (await now()) - gracePeriod - 60n;
+      await setRound(sequencerUptimeFeed, 0n, startedAt, startedAt);
+
+      const { sequencer, alerts } = await (await createMonitor()).check();
+
+      expect(sequencer.gracePeriodLeft).to.equal(0n);
+      expect(alerts).to.be.empty;
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { expect } from "chai";
+import { Interface } from "ethers";
+import * as hre from "hardhat";
+
+import { getInterface, SDK_CONTRACTS } from "../../sdk/abi";
+
+// sdk/abi.ts copies the fragments the SDK needs so that it runs without the artifacts, this catches them drifting
+describe("SDK ABIs", function() {
+  for (const contract of SDK_CONTRACTS) {
+    it(`match the ${contract} artifact`, async () => {
+      const artifact = new Interface(
+        (await hre.artifacts.readArtifact(contract)).abi
+      );
+      const sdk = getInterface(contract);
+
+      sdk.forEachFunction(fragment => {
+        const expected = artifact.getFunction(fragment.selector);
+        expect(expected, `${contract}.${fragment.format()}`).to.not.be.null;
+        expect(
+          fragment.outputs.map(output => output.format()),
+          `outputs of ${contract}.${fragment.name}`
+        ).to.deep.equal(expected!.outputs.map(output => output.format()));
+        expect(
+          fragment.stateMutability,
+          `mutability of ${contract}.${fragment.name}`
+        ).to.equal(expected!.stateMutability);
+      });
+      sdk.forEachEvent(fragment => {
+        const expected = artifact.getEvent(fragment.topicHash);
+        expect(expected, `${contract}.${fragment.format()}`).to.not.be.null;
+        expect(
+          fragment.inputs.map(input => input.indexed),
+          `indexed inputs of ${contract}.${fragment.name}`
+        ).to.deep.equal(expected!.inputs.map(input => input.indexed));
+      });
+      sdk.forEachError(fragment => {
+        expect(
+          artifact.getError(fragment.selector),
+          `${contract}.${fragment.format()}`
+        ).to.not.be.null;
+      });
+    });
+  }
+});
@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import { Contract, parseEther } from "ethers";
+
+import {
+  deployProtocolFixture,
+  fundAccount,
+  getRichWallet,
+  ProtocolFixture
+} from "./fixture";
+import { deployContract } from "../../deploy/utils";
+import {
+  buildSettlementTree,
+  SettlementEntry,
+  snapshotSettlementPnl,
+  verifySettlementProof
+} from "../../deploy/settlement";
+import { createLiquiditySdk } from "../../sdk/liquidity";
+import { createTraderSdk } from "../../sdk/trader";
+
+describe("Settlement tree", function() {
+  this.timeout(600000);
+
+  const lp = getRichWallet(1);
+  const long = getRichWallet(2);
+  const short = getRichWallet(3);
+  let fixture: ProtocolFixture;
+  let idx: bigint;
+  let block: number;
+  let entries: SettlementEntry[];
+  let root: string;
+  let proofs: Record<string, string[]>;
+  let settlement: Contract;
+
+  before(async () => {
+    fixture = await deployProtocolFixture();
+    idx = await fixture.clearingHouse.id(0);
+
+    await fundAccount(fixture, lp, parseEther("500000"));
+    await fundAccount(fixture, long, parseEther("10000"));
+    await fundAccount(fixture, short, parseEther("10000"));
+
+    const liquiditySdk = await createLiquiditySdk(lp, fixture.addresses);
+    await liquiditySdk.provideLiquidity(idx, parseEther("200000"));
+    await (await createTraderSdk(long, fixture.addresses)).openLong(
+      idx,
+      parseEther("5000")
+    );
+    await (await createTraderSdk(short, fixture.addresses)).openShort(
+      idx,
+      parseEther("2")
+    );
+
+    block = await fixture.provider.getBlockNumber();
+    ({ entries } = await snapshotSettlementPnl(
+      fixture.provider,
+      fixture.addresses,
+      [idx],
+      block,
+      0
+    ));
+    ({ root, proofs } = buildSettlementTree(entries));
+
+    settlement = await deployContract(
+      "PerpSettlement",
+      [
+        fixture.addresses.CLEARING_HOUSE,
+        [await fixture.perpetual.getAddress()],
+        root
+      ],
+      { wallet: fixture.deployer, silent: true, noVerify: true }
+    );
+  });
+
+  it("snapshots the PnL and pending funding of every open position", async () => {
+    expect(entries.map(({ account }) => account)).to.have.members([
+      lp.address,
+      long.address,
+      short.address
+    ]);
+    for (const { account, pnl } of entries)
+      expect(pnl).to.equal(
+        (await fixture.perpetual.getPendingPnL(account, { blockTag: block })) +
+          (await fixture.viewer.getFundingPayments(idx, account, {
+            blockTag: block
+          }))
+      );
+  });
+
+  it("generates proofs accepted by PerpSettlement.verifyPnL", async () => {
+    for (const { account, pnl } of entries) {
+      expect(verifySettlementProof(root, { account, pnl }, proofs[account])).to
+        .be.true;
+      expect(
+        await settlement.verifyPnL({
+          account,
+          pnl,
+          merkleProof: proofs[account]
+        })
+      ).to.be.true;
+    }
+  });
+
+  it("rejects proofs of another PnL", async () => {
+    const { account, pnl } = entries[0];
+    expect(
+      await settlement.verifyPnL({
+        account,
+        pnl: pnl + 1n,
+        merkleProof: proofs[account]
+      })
+    ).to.be.false;
+  });
+});